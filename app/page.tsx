@@ -1,421 +1,694 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
-import { Delaunay } from 'd3-delaunay';
-import Drawing from 'dxf-writer';
-
-interface Point {
-  x: number;
-  y: number;
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Delaunay, Voronoi } from 'd3-delaunay';
+import { ArcVertex, BorderJoin, Point, filletPolygon, getBulgeArc } from '@/lib/geometry';
+import {
+  BUILT_IN_PALETTES,
+  BoundaryShape,
+  DEFAULT_DESIGN_PARAMETERS,
+  DESIGN_PARAMETER_RANGES,
+  DensityImage,
+  DensityMode,
+  Design,
+  DesignParameters,
+  FillMode,
+  KeepOut,
+  KeepOutShape,
+  MAX_KERF_MM,
+  MaterialProfile,
+  PointDistribution,
+  checkManufacturability,
+  createBoundary,
+  createDiagram,
+  createKeepOutGeometry,
+  generateSeedPoints,
+  getBoundaryCutPath,
+  getBoundaryPolygon,
+  getCellColorIndices,
+  getClippedCells,
+  getClippedTriangles,
+  getDesignSize,
+  getKeepOutCutPaths,
+  getKerfOffset,
+  getScaleFactor,
+  isPointInShape,
+  relaxPoints
+} from '@/lib/pattern';
+import {
+  DEFAULT_EXPORT_LAYERS,
+  DEFAULT_GCODE_SETTINGS,
+  DOCUMENT_UNITS,
+  DocumentUnit,
+  ExportLayers,
+  GCodeSettings,
+  VectorExportOptions,
+  createDXF,
+  createGCode,
+  createSVG,
+  setPngResolution
+} from '@/lib/export';
+import { PROJECT_FORMAT, PROJECT_VERSION, ProjectFile, getProjectDesignParameters, parseProjectFile } from '@/lib/project';
+import { normalizeOutline, parseDxfOutline, parseSvgOutline } from '@/lib/import';
+
+const MATERIAL_PRESETS: ({ name: string } & MaterialProfile)[] = [
+  { name: '3 mm plywood', minWebMM: 2, minHoleMM: 3, kerfMM: 0.15 },
+  { name: '3 mm acrylic', minWebMM: 2.5, minHoleMM: 3, kerfMM: 0.2 },
+  { name: '6 mm MDF', minWebMM: 4, minHoleMM: 5, kerfMM: 0.25 },
+  { name: '1.5 mm steel', minWebMM: 1.5, minHoleMM: 1.5, kerfMM: 0.1 }
+];
+
+// Canvas drag in point editing mode: moving the selection or drawing a selection box
+type CanvasDrag =
+  | { type: 'move'; origin: Point; indices: number[]; startPoints: Point[] }
+  | { type: 'box'; start: Point; additive: boolean };
+
+// Design state tracked by undo/redo
+interface DesignSnapshot extends DesignParameters {
+  points: Point[];
 }
 
-interface JaggedCircle {
-  center: Point;
-  baseRadius: number;
-  jaggedPoints: Point[];
-}
+// Snapshot fields that make the pattern regenerate when they change
+const GENERATION_KEYS: (keyof DesignSnapshot)[] = [
+  'numPoints', 'seed', 'randomness', 'relaxIterations', 'distribution', 'minSpacingMM', 'fillToSaturation',
+  'densityMode', 'densityStrength', 'densityAngle', 'densityInvert', 'densityImage', 'useCustomShape',
+  'boundaryShape', 'boundaryAspect', 'cornerRadius', 'polygonSides', 'importedOutline', 'keepOuts', 'keepOutMargin',
+  'documentAspect'
+];
+
+// Helper function to get the document width the generated points depend on.
+// The width only moves points when the spacing or keep-outs are given in millimeters;
+// otherwise the points stay where they are in the design space and scale with the width,
+// so edited points survive a change of size.
+const getGenerationWidthMM = (
+  parameters: Pick<DesignParameters, 'distribution' | 'keepOuts' | 'physicalWidthMM'>
+): number | null =>
+  parameters.distribution === 'poisson' || parameters.keepOuts.length > 0 ? parameters.physicalWidthMM : null;
+
+const MAX_HISTORY_LENGTH = 100;
+
+// URL hash parameter holding a shared design
+const PERMALINK_PARAM = 'design';
+
+// Largest PNG side browsers reliably allocate a canvas for
+const MAX_PNG_SIDE = 16384;
 
 export default function VoronoiDesigner() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [points, setPoints] = useState<Point[]>([]);
   const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
-  const [numPoints, setNumPoints] = useState(25);
+  const [numPoints, setNumPoints] = useState(DEFAULT_DESIGN_PARAMETERS.numPoints);
   const [showPoints, setShowPoints] = useState(false);
   const [showVoronoi, setShowVoronoi] = useState(false);
   const [showDelaunay, setShowDelaunay] = useState(false);
   const [showDoubleBorder, setShowDoubleBorder] = useState(true);
-  const [borderOffset, setBorderOffset] = useState(8);
+  const [borderOffset, setBorderOffset] = useState(DEFAULT_DESIGN_PARAMETERS.borderOffset);
+  const [borderJoin, setBorderJoin] = useState<BorderJoin>(DEFAULT_DESIGN_PARAMETERS.borderJoin);
+  const [filletRadius, setFilletRadius] = useState(DEFAULT_DESIGN_PARAMETERS.filletRadius); // Rounds the inset cell corners
   const [strokeWidth, setStrokeWidth] = useState(1);
+  const [fillMode, setFillMode] = useState<FillMode>('none');
+  const [palette, setPalette] = useState<string[]>(BUILT_IN_PALETTES[0].colors);
   const [seed, setSeed] = useState(Date.now());
-  const [randomness, setRandomness] = useState(65); // 0 = grid-like, 100 = fully random
-
-  // Custom shape options (jagged circle)
-  const [useCustomShape, setUseCustomShape] = useState(true);
-  const [customCircle, setCustomCircle] = useState<JaggedCircle | null>(null);
-  const [jaggedness, setJaggedness] = useState(2.5); // 0 = smooth circle, 80 = very jagged (now in whole numbers)
-  const [jaggedPoints, setJaggedPoints] = useState(64); // Number of points around the circle
+  const [randomness, setRandomness] = useState(DEFAULT_DESIGN_PARAMETERS.randomness); // 0 = grid-like, 100 = fully random
+  const [relaxIterations, setRelaxIterations] = useState(DEFAULT_DESIGN_PARAMETERS.relaxIterations); // Lloyd relaxation steps applied after generation
+  const [distribution, setDistribution] = useState<PointDistribution>(DEFAULT_DESIGN_PARAMETERS.distribution);
+  const [minSpacingMM, setMinSpacingMM] = useState(DEFAULT_DESIGN_PARAMETERS.minSpacingMM); // Minimum distance between Poisson-disk points
+  const [fillToSaturation, setFillToSaturation] = useState(DEFAULT_DESIGN_PARAMETERS.fillToSaturation); // Ignore the point budget for Poisson-disk sampling
+
+  // Density map options
+  const [densityMode, setDensityMode] = useState<DensityMode>(DEFAULT_DESIGN_PARAMETERS.densityMode);
+  const [densityStrength, setDensityStrength] = useState(DEFAULT_DESIGN_PARAMETERS.densityStrength); // 0 = uniform, 100 = full contrast
+  const [densityAngle, setDensityAngle] = useState(DEFAULT_DESIGN_PARAMETERS.densityAngle); // Direction of the linear gradient in degrees
+  const [densityInvert, setDensityInvert] = useState(DEFAULT_DESIGN_PARAMETERS.densityInvert);
+  const [densityImage, setDensityImage] = useState<DensityImage | null>(DEFAULT_DESIGN_PARAMETERS.densityImage);
+  const relaxAnimationRef = useRef<number | null>(null);
+
+  // Custom shape options
+  const [useCustomShape, setUseCustomShape] = useState(DEFAULT_DESIGN_PARAMETERS.useCustomShape);
+  const [boundaryShape, setBoundaryShape] = useState<BoundaryShape>(DEFAULT_DESIGN_PARAMETERS.boundaryShape);
+  const [boundaryAspect, setBoundaryAspect] = useState(DEFAULT_DESIGN_PARAMETERS.boundaryAspect); // Width / height for rectangles and ovals
+  const [cornerRadius, setCornerRadius] = useState(DEFAULT_DESIGN_PARAMETERS.cornerRadius); // Percent of the shorter side for rounded rectangles
+  const [polygonSides, setPolygonSides] = useState(DEFAULT_DESIGN_PARAMETERS.polygonSides);
+  const [importedOutline, setImportedOutline] = useState<Point[] | null>(DEFAULT_DESIGN_PARAMETERS.importedOutline); // In millimeters, centered on the origin
+  const [boundaryImportError, setBoundaryImportError] = useState<string | null>(null);
+
+  // Material profile for the manufacturability check
+  const [materialProfile, setMaterialProfile] = useState<MaterialProfile>({ minWebMM: 2, minHoleMM: 3, kerfMM: 0.15 });
+
+  // Keep-out zones
+  const [keepOuts, setKeepOuts] = useState<KeepOut[]>(DEFAULT_DESIGN_PARAMETERS.keepOuts);
+  const [keepOutMargin, setKeepOutMargin] = useState(DEFAULT_DESIGN_PARAMETERS.keepOutMargin); // Solid web kept around each zone, in millimeters
+  const [keepOutImportError, setKeepOutImportError] = useState<string | null>(null);
+  const [jaggedness, setJaggedness] = useState(DEFAULT_DESIGN_PARAMETERS.jaggedness); // 0 = smooth outline, 80 = very jagged (now in whole numbers)
+  const [jaggedPoints, setJaggedPoints] = useState(DEFAULT_DESIGN_PARAMETERS.jaggedPoints); // Number of points around the outline
   const [boundarySeed, setBoundarySeed] = useState(Date.now());
 
   // Export options
-  const [exportVoronoi, setExportVoronoi] = useState(false);
-  const [exportDelaunay, setExportDelaunay] = useState(false);
-  const [exportPoints, setExportPoints] = useState(false);
-  const [exportDoubleBorder, setExportDoubleBorder] = useState(true);
-  const [exportBoundary, setExportBoundary] = useState(true);
+  const [exportVoronoi, setExportVoronoi] = useState(DEFAULT_EXPORT_LAYERS.voronoi);
+  const [exportDelaunay, setExportDelaunay] = useState(DEFAULT_EXPORT_LAYERS.delaunay);
+  const [exportPoints, setExportPoints] = useState(DEFAULT_EXPORT_LAYERS.points);
+  const [exportDoubleBorder, setExportDoubleBorder] = useState(DEFAULT_EXPORT_LAYERS.doubleBorder);
+  const [exportBoundary, setExportBoundary] = useState(DEFAULT_EXPORT_LAYERS.boundary);
+  const [exportKeepOuts, setExportKeepOuts] = useState(DEFAULT_EXPORT_LAYERS.keepOuts);
+  const [kerfCompensation, setKerfCompensation] = useState(false);
+  const [exportFills, setExportFills] = useState(true);
+  const [pngDPI, setPngDPI] = useState(300);
+  const [pngTransparent, setPngTransparent] = useState(false);
+  const [pngBackground, setPngBackground] = useState('#ffffff');
+  const [pngError, setPngError] = useState<string | null>(null);
+  const [gcodeSettings, setGcodeSettings] = useState<GCodeSettings>(DEFAULT_GCODE_SETTINGS);
   const [showExportOptions, setShowExportOptions] = useState(false);
-  const [circleDiameterMM, setCircleDiameterMM] = useState(250); // Diameter in millimeters
+  const [physicalWidthMM, setPhysicalWidthMM] = useState(DEFAULT_DESIGN_PARAMETERS.physicalWidthMM); // Boundary width, or document width without a boundary, in millimeters
+  const [documentAspect, setDocumentAspect] = useState(DEFAULT_DESIGN_PARAMETERS.documentAspect); // Document width / height without a boundary
+  const [documentUnit, setDocumentUnit] = useState<DocumentUnit>('mm');
 
   // UI state
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
   const [showDisplaySettings, setShowDisplaySettings] = useState(false);
   const [showBoundarySettings, setShowBoundarySettings] = useState(false);
+  const [showKeepOutSettings, setShowKeepOutSettings] = useState(false);
+  const [showManufacturingSettings, setShowManufacturingSettings] = useState(false);
+  const [showDensitySettings, setShowDensitySettings] = useState(false);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const [sharedProject, setSharedProject] = useState<ProjectFile | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Point editing state
+  const [editMode, setEditMode] = useState(false);
+  const [selectedPoints, setSelectedPoints] = useState<Set<number>>(new Set());
+  const [selectionBox, setSelectionBox] = useState<{ start: Point; end: Point } | null>(null);
+  const canvasDragRef = useRef<CanvasDrag | null>(null);
+
+  // Undo/redo history
+  const [history, setHistory] = useState<{ past: DesignSnapshot[]; future: DesignSnapshot[] }>({ past: [], future: [] });
+  const committedSnapshotRef = useRef<DesignSnapshot | null>(null);
+  const pendingCommitRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const restoringSnapshotRef = useRef(false);
+  const skipGenerationRef = useRef(false);
+
+  // Load an uploaded image as a grayscale density map (dark areas are dense)
+  const loadDensityImage = (file: File) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      // Downscale large images; the map only needs coarse detail
+      const maxSize = 256;
+      const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+      const width = Math.max(1, Math.round(image.width * scale));
+      const height = Math.max(1, Math.round(image.height * scale));
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(image, 0, 0, width, height);
+      const { data } = ctx.getImageData(0, 0, width, height);
+
+      const values = new Float32Array(width * height);
+      for (let i = 0; i < values.length; i++) {
+        const luminance = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+        // Transparent pixels count as white
+        const alpha = data[i * 4 + 3] / 255;
+        values[i] = (1 - luminance) * alpha;
+      }
 
-  const seedFunction = (seed: number) => {
-    return function () {
-      seed = (seed * 9301 + 49297) % 233280;
-      return seed / 233280;
-    };
-  }
-
-  // Generate random points with seeded randomization and controllable randomness
-  const generateRandomPoints = (count: number, seedValue: number) => {
-    // Simple seeded random number generator
-    const seededRandom = seedFunction(seedValue);
-
-    const newPoints: Point[] = [];
-    const margin = 20;
-    const effectiveWidth = canvasSize.width - 2 * margin;
-    const effectiveHeight = canvasSize.height - 2 * margin;
-    const maxAttempts = count * 10; // Prevent infinite loops
-    let attempts = 0;
-
-    // Always start with a center point
-    const centerPoint: Point = {
-      x: useCustomShape && customCircle ? customCircle.center.x : canvasSize.width / 2,
-      y: useCustomShape && customCircle ? customCircle.center.y : canvasSize.height / 2
+      setDensityImage({ width, height, values });
+      URL.revokeObjectURL(url);
     };
-    newPoints.push(centerPoint);
-
-    // Convert randomness (0-100) to factor (0-1)
-    const randomnessFactor = randomness / 100;
-
-    if (randomnessFactor < 0.1) {
-      // Very low randomness: Create a grid pattern with slight variations
-      const remainingCount = count - 1; // Subtract 1 for the center point we already added
-      const cols = Math.ceil(Math.sqrt(remainingCount * (effectiveWidth / effectiveHeight)));
-      const rows = Math.ceil(remainingCount / cols);
-      const cellWidth = effectiveWidth / cols;
-      const cellHeight = effectiveHeight / rows;
-
-      for (let i = 0; i < remainingCount && attempts < maxAttempts; attempts++) {
-        const col = i % cols;
-        const row = Math.floor(i / cols);
-
-        const baseX = margin + col * cellWidth + cellWidth / 2;
-        const baseY = margin + row * cellHeight + cellHeight / 2;
-
-        // Add small random variation
-        const variation = Math.min(cellWidth, cellHeight) * 0.2;
-        const point = {
-          x: baseX + (seededRandom() - 0.5) * variation,
-          y: baseY + (seededRandom() - 0.5) * variation
-        };
-
-        // Check if point is within bounds and custom shape
-        if (point.x >= margin && point.x <= canvasSize.width - margin &&
-          point.y >= margin && point.y <= canvasSize.height - margin &&
-          (!useCustomShape || isPointInCustomShape(point))) {
-          newPoints.push(point);
-          i++;
-        }
-      }
-    } else {
-      // Higher randomness: Blend grid and random positioning
-      const remainingCount = count - 1; // Subtract 1 for the center point we already added
-      const cols = Math.ceil(Math.sqrt(remainingCount * (effectiveWidth / effectiveHeight)));
-      const rows = Math.ceil(remainingCount / cols);
-      const cellWidth = effectiveWidth / cols;
-      const cellHeight = effectiveHeight / rows;
-
-      for (let i = 0; i < remainingCount && attempts < maxAttempts; attempts++) {
-        let point: Point;
-
-        if (seededRandom() < randomnessFactor) {
-          // Fully random placement
-          point = {
-            x: margin + seededRandom() * effectiveWidth,
-            y: margin + seededRandom() * effectiveHeight
-          };
-        } else {
-          // Grid-based with variation
-          const col = i % cols;
-          const row = Math.floor(i / cols);
-
-          const baseX = margin + col * cellWidth + cellWidth / 2;
-          const baseY = margin + row * cellHeight + cellHeight / 2;
-
-          // Variable amount of deviation based on randomness
-          const maxDeviation = Math.min(cellWidth, cellHeight) * randomnessFactor;
-          point = {
-            x: baseX + (seededRandom() - 0.5) * maxDeviation,
-            y: baseY + (seededRandom() - 0.5) * maxDeviation
-          };
-        }
+    image.onerror = () => URL.revokeObjectURL(url);
+    image.src = url;
+  };
 
-        // Check if point is within bounds and custom shape
-        if (point.x >= margin && point.x <= canvasSize.width - margin &&
-          point.y >= margin && point.y <= canvasSize.height - margin &&
-          (!useCustomShape || isPointInCustomShape(point))) {
-          newPoints.push(point);
-          i++;
-        }
-      }
+  // Helper function to read an outline from an SVG or DXF file, in millimeters and centered on the origin
+  const readOutlineFile = async (file: File): Promise<{ outline: Point[]; width: number; height: number }> => {
+    const text = await file.text();
+    if (/\.dxf$/i.test(file.name)) return normalizeOutline(parseDxfOutline(text));
+
+    const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+    const svg = doc.querySelector('svg');
+    if (!svg || doc.querySelector('parsererror')) {
+      throw new Error('The file is not a valid SVG document.');
     }
+    return normalizeOutline(parseSvgOutline(svg, Array.from(doc.querySelectorAll('path, polygon'))));
+  };
 
-    return newPoints;
+  // Import a boundary outline from an SVG or DXF file
+  const importBoundaryFile = async (file: File) => {
+    try {
+      const { outline, width } = await readOutlineFile(file);
+      const { min, max } = DESIGN_PARAMETER_RANGES.physicalWidthMM;
+      if (width < min || width > max) {
+        throw new Error(`The outline is ${formatLength(width)} wide; boundaries must be ${formatLength(min)} to ${formatLength(max)} wide.`);
+      }
+      setImportedOutline(outline);
+      setPhysicalWidthMM(width);
+      setBoundaryShape('imported');
+      setUseCustomShape(true);
+      setBoundaryImportError(null);
+    } catch (error) {
+      setBoundaryImportError(error instanceof Error ? error.message : 'The outline could not be imported.');
+    }
   };
 
-  // Helper function to create inset polygon
-  const createInsetPolygon = (polygon: number[][], offset: number): number[][] => {
-    if (!polygon || polygon.length < 3) return polygon;
+  // Capture the current design parameters
+  const getDesignParameters = (): DesignParameters => ({
+    numPoints,
+    seed,
+    randomness,
+    relaxIterations,
+    distribution,
+    minSpacingMM,
+    fillToSaturation,
+    densityMode,
+    densityStrength,
+    densityAngle,
+    densityInvert,
+    densityImage,
+    useCustomShape,
+    boundaryShape,
+    boundaryAspect,
+    cornerRadius,
+    polygonSides,
+    importedOutline,
+    boundarySeed,
+    jaggedness,
+    jaggedPoints,
+    keepOuts,
+    keepOutMargin,
+    borderOffset,
+    borderJoin,
+    filletRadius,
+    physicalWidthMM,
+    documentAspect
+  });
+
+  // Current boundary, rebuilt whenever its parameters change
+  const boundary = useMemo(
+    () => createBoundary(getDesignParameters()),
+    // eslint-disable-next-line
+    [useCustomShape, boundaryShape, boundaryAspect, cornerRadius, polygonSides, importedOutline, jaggedPoints, jaggedness, boundarySeed]
+  );
 
-    // Calculate centroid
-    const centroid = polygon.reduce(
-      (acc, point) => [acc[0] + point[0], acc[1] + point[1]],
-      [0, 0]
-    ).map(coord => coord / polygon.length);
+  // Size of the design space: fixed with a boundary, set by the document aspect without one
+  const designSize = getDesignSize({ useCustomShape, documentAspect });
 
-    // Create inset polygon by moving each vertex toward centroid
-    return polygon.map(point => {
-      const dx = centroid[0] - point[0];
-      const dy = centroid[1] - point[1];
-      const length = Math.sqrt(dx * dx + dy * dy);
+  // Helper function to format a length in millimeters in the document unit
+  const formatLength = (mm: number): string =>
+    `${Number((mm / DOCUMENT_UNITS[documentUnit].mm).toFixed(documentUnit === 'mm' ? 1 : 2))} ${documentUnit}`;
 
-      if (length === 0) return point;
+  // Keep-out zones on the canvas: the outlines to cut, and the areas cells must avoid including the margin
+  const keepOutGeometry = useMemo(
+    () => createKeepOutGeometry(boundary, getDesignParameters()),
+    // eslint-disable-next-line
+    [boundary, physicalWidthMM, keepOuts, keepOutMargin]
+  );
 
-      const normalizedDx = dx / length;
-      const normalizedDy = dy / length;
+  // Current design as the pattern library sees it
+  const design: Design = { parameters: getDesignParameters(), points, boundary, keepOutGeometry };
 
-      return [
-        point[0] + normalizedDx * offset,
-        point[1] + normalizedDy * offset
-      ];
-    });
-  };
+  // Manufacturability problems, only worked out while the checker is open
+  const manufacturingIssues = useMemo(
+    () => showManufacturingSettings ? checkManufacturability(design, materialProfile, kerfCompensation) : [],
+    // eslint-disable-next-line
+    [showManufacturingSettings, points, boundary, physicalWidthMM, keepOutGeometry, borderOffset, borderJoin, materialProfile, kerfCompensation]
+  );
 
+  // Remove the seeds of cells whose cutout vanishes or is too small, merging them into their neighbours
+  const removeTinyCells = () => {
+    const tiny = new Set(manufacturingIssues.flatMap(issue => issue.type === 'thinWeb' ? [] : [issue.cell]));
+    stopRelaxation();
+    setSelectedPoints(new Set());
+    setPoints(points.filter((_, i) => !tiny.has(i)));
+  };
 
+  // Remove seeds that are too close together to leave room for a hole and its webs
+  const thinCloseSeeds = () => {
+    const minDistance = materialProfile.minHoleMM / getScaleFactor(design) + 2 * borderOffset;
+    const kept: Point[] = [];
+    points.forEach(point => {
+      if (kept.every(other => Math.hypot(other.x - point.x, other.y - point.y) >= minDistance)) {
+        kept.push(point);
+      }
+    });
+    stopRelaxation();
+    setSelectedPoints(new Set());
+    setPoints(kept);
+  };
 
-  // Helper function to check if point is inside polygon
-  const isPointInPolygon = (point: Point, polygon: Point[]): boolean => {
-    if (polygon.length < 3) return true;
+  // Border offset that makes the thinnest web wide enough; webs scale with the offset.
+  // May exceed the border offset range, in which case widening the border can't fix the webs.
+  const getRequiredBorderOffset = (): number => {
+    const thinnest = Math.min(...manufacturingIssues.map(issue => issue.type === 'thinWeb' ? issue.width : Infinity));
+    if (!Number.isFinite(thinnest) || thinnest <= 0) return borderOffset;
+    const kerfLoss = kerfCompensation ? 0 : materialProfile.kerfMM;
+    return Math.ceil(borderOffset * (materialProfile.minWebMM + kerfLoss) / thinnest);
+  };
 
-    let inside = false;
-    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
-      if (((polygon[i].y > point.y) !== (polygon[j].y > point.y)) &&
-        (point.x < (polygon[j].x - polygon[i].x) * (point.y - polygon[i].y) / (polygon[j].y - polygon[i].y) + polygon[i].x)) {
-        inside = !inside;
-      }
+  // Stop a running relaxation animation
+  const stopRelaxation = () => {
+    if (relaxAnimationRef.current !== null) {
+      cancelAnimationFrame(relaxAnimationRef.current);
+      relaxAnimationRef.current = null;
     }
-    return inside;
   };
 
-  // Helper function to generate jagged circle points
-  const generateJaggedCircle = (center: Point, baseRadius: number, jaggedPointCount: number, jaggedness: number, seedValue: number): Point[] => {
-    // Simple seeded random number generator for consistent jagged patterns
-    const seededRandom = seedFunction(seedValue);
+  // Animate Lloyd relaxation, drawing one iteration per frame
+  const animateRelaxation = (startPoints: Point[], iterations: number) => {
+    stopRelaxation();
 
-    const jaggedPoints: Point[] = [];
-    const angleStep = (2 * Math.PI) / jaggedPointCount;
-    // Convert jaggedness from 0-80 scale to 0-0.8 scale for calculations
-    const jaggednessFactor = jaggedness / 100;
+    setPoints(startPoints);
+    if (iterations <= 0) return;
 
-    for (let i = 0; i < jaggedPointCount; i++) {
-      const angle = i * angleStep;
-      // Add random variation to the radius
-      const radiusVariation = (seededRandom() - 0.5) * 2 * jaggednessFactor * baseRadius;
-      const radius = baseRadius + radiusVariation;
+    let currentPoints = startPoints;
+    let completed = 0;
+    const step = () => {
+      currentPoints = relaxPoints(currentPoints, design);
+      completed++;
+      setPoints(currentPoints);
+      relaxAnimationRef.current = completed < iterations ? requestAnimationFrame(step) : null;
+    };
+    relaxAnimationRef.current = requestAnimationFrame(step);
+  };
 
-      const x = center.x + radius * Math.cos(angle);
-      const y = center.y + radius * Math.sin(angle);
+  // Generate new pattern
+  const generatePattern = () => {
+    setSelectedPoints(new Set());
+    // Relaxation is deterministic, so the same seed and iteration count always give the same design
+    animateRelaxation(generateSeedPoints(design), relaxIterations);
+  };
+  // Stop a running relaxation when the designer unmounts
+  useEffect(() => {
+    return () => {
+      if (relaxAnimationRef.current !== null) {
+        cancelAnimationFrame(relaxAnimationRef.current);
+      }
+    };
+  }, []);
 
-      jaggedPoints.push({ x, y });
-    }
+  // Update canvas size based on container
+  useEffect(() => {
+    const updateCanvasSize = () => {
+      if (containerRef.current) {
+        const containerWidth = containerRef.current.clientWidth - 24; // Account for padding
 
-    return jaggedPoints;
-  };
+        // Keep the aspect ratio of the design space
+        setCanvasSize({
+          width: containerWidth,
+          height: containerWidth * designSize.height / designSize.width
+        });
+      }
+    };
 
-  // Helper function to check if point is inside jagged circle
-  const isPointInJaggedCircle = (point: Point, jaggedCircle: JaggedCircle): boolean => {
-    if (jaggedCircle.jaggedPoints.length === 0) {
-      // Fallback to regular circle check if no jagged points
-      const dx = point.x - jaggedCircle.center.x;
-      const dy = point.y - jaggedCircle.center.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      return distance <= jaggedCircle.baseRadius;
-    }
+    updateCanvasSize();
+    window.addEventListener('resize', updateCanvasSize);
 
-    // Use polygon containment check for jagged boundary
-    return isPointInPolygon(point, jaggedCircle.jaggedPoints);
-  };
+    return () => window.removeEventListener('resize', updateCanvasSize);
+  }, [designSize.width, designSize.height]);
 
-  // Helper function to check if point is inside custom circle
-  const isPointInCustomShape = (point: Point): boolean => {
-    if (customCircle) {
-      return isPointInJaggedCircle(point, customCircle);
-    }
-    return true;
-  };
+  // Read a shared design from the URL
+  useEffect(() => {
+    const encoded = new URLSearchParams(window.location.hash.slice(1)).get(PERMALINK_PARAM);
+    if (!encoded) return;
+
+    decodePermalink(encoded)
+      .then(setSharedProject)
+      .catch(error => setProjectError(
+        `The shared link could not be opened. ${error instanceof Error ? error.message : ''}`.trim()
+      ));
+  }, []);
 
-  // Helper function to clip line segment to boundary
-  const clipLineToShape = (startPoint: Point, endPoint: Point): Point[] | null => {
-    if (!useCustomShape || !customCircle) {
-      return [startPoint, endPoint];
+  // Apply the shared design once it has been decoded
+  useEffect(() => {
+    if (!sharedProject) return;
+    try {
+      loadProjectFile(sharedProject);
+    } catch (error) {
+      setProjectError(
+        `The shared link could not be opened. ${error instanceof Error ? error.message : ''}`.trim()
+      );
     }
+    setSharedProject(null);
+    // eslint-disable-next-line
+  }, [sharedProject]);
 
-    const startInside = isPointInCustomShape(startPoint);
-    const endInside = isPointInCustomShape(endPoint);
+  const generationWidthMM = getGenerationWidthMM({ distribution, keepOuts, physicalWidthMM });
 
-    // Both points inside
-    if (startInside && endInside) {
-      return [startPoint, endPoint];
+  // Initialize with random points
+  useEffect(() => {
+    // Undo/redo restores the exact points, so don't regenerate over them
+    if (skipGenerationRef.current) {
+      skipGenerationRef.current = false;
+      return;
     }
+    generatePattern();
+  }, [numPoints, seed, useCustomShape, boundaryShape, boundaryAspect, cornerRadius, polygonSides, importedOutline, keepOuts, keepOutMargin, randomness, relaxIterations, distribution, minSpacingMM, fillToSaturation, generationWidthMM, documentAspect, densityMode, densityStrength, densityAngle, densityInvert, densityImage]);
 
-    // Both points outside
-    if (!startInside && !endInside) {
-      // Check if line passes through the shape
-      const intersections = findLineShapeIntersections(startPoint, endPoint);
-      if (intersections.length >= 2) {
-        return [intersections[0], intersections[1]];
-      }
-      return null;
-    }
+  // Capture the current design state
+  const getDesignSnapshot = (): DesignSnapshot => ({ points, ...getDesignParameters() });
 
-    // One point inside, one outside
-    const intersections = findLineShapeIntersections(startPoint, endPoint);
-    if (intersections.length > 0) {
-      if (startInside) {
-        return [startPoint, intersections[0]];
-      } else {
-        return [intersections[0], endPoint];
-      }
+  // Helper function to check if two snapshots describe the same design
+  const isSameSnapshot = (a: DesignSnapshot, b: DesignSnapshot): boolean =>
+    (Object.keys(a) as (keyof DesignSnapshot)[]).every(key => a[key] === b[key]);
+
+  // Push the last committed state onto the undo stack if the design has changed since
+  const commitSnapshot = (snapshot: DesignSnapshot) => {
+    if (pendingCommitRef.current !== null) {
+      clearTimeout(pendingCommitRef.current);
+      pendingCommitRef.current = null;
     }
 
-    return null;
+    const committed = committedSnapshotRef.current;
+    committedSnapshotRef.current = snapshot;
+    if (!committed || isSameSnapshot(committed, snapshot)) return;
+
+    setHistory(prev => ({
+      past: [...prev.past, committed].slice(-MAX_HISTORY_LENGTH),
+      future: []
+    }));
   };
 
-  // Helper function to find intersections between a line and the shape boundary
-  const findLineShapeIntersections = (p1: Point, p2: Point): Point[] => {
-    if (!customCircle || customCircle.jaggedPoints.length === 0) {
-      return [];
+  // Record design changes once they settle, so a slider drag or relaxation becomes a single step
+  useEffect(() => {
+    const snapshot = getDesignSnapshot();
+
+    if (restoringSnapshotRef.current) {
+      restoringSnapshotRef.current = false;
+      committedSnapshotRef.current = snapshot;
+      return;
     }
 
-    const intersections: Point[] = [];
-    const jaggedPoints = customCircle.jaggedPoints;
+    if (pendingCommitRef.current !== null) clearTimeout(pendingCommitRef.current);
+    const scheduleCommit = () => {
+      pendingCommitRef.current = setTimeout(() => {
+        // Wait for drags and relaxation animations to finish
+        if (canvasDragRef.current || relaxAnimationRef.current !== null) {
+          scheduleCommit();
+          return;
+        }
+        commitSnapshot(snapshot);
+      }, 400);
+    };
+    scheduleCommit();
+    // eslint-disable-next-line
+  }, [points, numPoints, seed, randomness, relaxIterations, distribution, minSpacingMM, fillToSaturation, densityMode, densityStrength, densityAngle, densityInvert, densityImage, useCustomShape, boundaryShape, boundaryAspect, cornerRadius, polygonSides, importedOutline, boundarySeed, jaggedness, jaggedPoints, keepOuts, keepOutMargin, borderOffset, borderJoin, filletRadius, physicalWidthMM, documentAspect]);
+
+  // Apply a design snapshot without regenerating the points it contains
+  const applyDesignSnapshot = (snapshot: DesignSnapshot) => {
+    const current = getDesignSnapshot();
+    stopRelaxation();
+    // Only skip when the generation effect will actually run, or the flag would swallow the next regeneration
+    skipGenerationRef.current = GENERATION_KEYS.some(key => snapshot[key] !== current[key]) ||
+      getGenerationWidthMM(snapshot) !== getGenerationWidthMM(current);
+
+    setPoints(snapshot.points);
+    setNumPoints(snapshot.numPoints);
+    setSeed(snapshot.seed);
+    setRandomness(snapshot.randomness);
+    setRelaxIterations(snapshot.relaxIterations);
+    setDistribution(snapshot.distribution);
+    setMinSpacingMM(snapshot.minSpacingMM);
+    setFillToSaturation(snapshot.fillToSaturation);
+    setDensityMode(snapshot.densityMode);
+    setDensityStrength(snapshot.densityStrength);
+    setDensityAngle(snapshot.densityAngle);
+    setDensityInvert(snapshot.densityInvert);
+    setDensityImage(snapshot.densityImage);
+    setUseCustomShape(snapshot.useCustomShape);
+    setBoundaryShape(snapshot.boundaryShape);
+    setBoundaryAspect(snapshot.boundaryAspect);
+    setCornerRadius(snapshot.cornerRadius);
+    setPolygonSides(snapshot.polygonSides);
+    setImportedOutline(snapshot.importedOutline);
+    setBoundarySeed(snapshot.boundarySeed);
+    setJaggedness(snapshot.jaggedness);
+    setJaggedPoints(snapshot.jaggedPoints);
+    setKeepOuts(snapshot.keepOuts);
+    setKeepOutMargin(snapshot.keepOutMargin);
+    setBorderOffset(snapshot.borderOffset);
+    setBorderJoin(snapshot.borderJoin);
+    setFilletRadius(snapshot.filletRadius);
+    setPhysicalWidthMM(snapshot.physicalWidthMM);
+    setDocumentAspect(snapshot.documentAspect);
+    setSelectedPoints(new Set());
+  };
 
-    // Check intersection with each edge of the jagged boundary
-    for (let i = 0; i < jaggedPoints.length; i++) {
-      const edgeStart = jaggedPoints[i];
-      const edgeEnd = jaggedPoints[(i + 1) % jaggedPoints.length];
+  // Apply a snapshot from the history
+  const restoreSnapshot = (snapshot: DesignSnapshot) => {
+    restoringSnapshotRef.current = true;
+    applyDesignSnapshot(snapshot);
+  };
 
-      const intersection = lineLineIntersection(p1, p2, edgeStart, edgeEnd);
-      if (intersection) {
-        intersections.push(intersection);
-      }
+  // Step back through the history
+  const undo = () => {
+    const current = getDesignSnapshot();
+    const committed = committedSnapshotRef.current;
+    if (pendingCommitRef.current !== null) {
+      clearTimeout(pendingCommitRef.current);
+      pendingCommitRef.current = null;
     }
 
-    // Sort intersections by distance from p1
-    intersections.sort((a, b) => {
-      const distA = Math.sqrt((a.x - p1.x) ** 2 + (a.y - p1.y) ** 2);
-      const distB = Math.sqrt((b.x - p1.x) ** 2 + (b.y - p1.y) ** 2);
-      return distA - distB;
-    });
+    // A change that hasn't been recorded yet is undone first
+    const hasPendingChange = committed !== null && !isSameSnapshot(committed, current);
+    const previous = hasPendingChange ? committed : history.past[history.past.length - 1];
+    if (!previous) return;
 
-    return intersections;
+    restoreSnapshot(previous);
+    setHistory({
+      past: hasPendingChange ? history.past : history.past.slice(0, -1),
+      future: [current, ...history.future]
+    });
   };
 
-  // Helper function to find intersection between two line segments
-  const lineLineIntersection = (p1: Point, p2: Point, p3: Point, p4: Point): Point | null => {
-    const x1 = p1.x, y1 = p1.y;
-    const x2 = p2.x, y2 = p2.y;
-    const x3 = p3.x, y3 = p3.y;
-    const x4 = p4.x, y4 = p4.y;
-
-    const denom = (x1 - x2) * (y3 - y4) - (y1 - y2) * (x3 - x4);
-    if (Math.abs(denom) < 1e-10) return null; // Lines are parallel
-
-    const t = ((x1 - x3) * (y3 - y4) - (y1 - y3) * (x3 - x4)) / denom;
-    const u = -((x1 - x2) * (y1 - y3) - (y1 - y2) * (x1 - x3)) / denom;
+  // Step forward through the history
+  const redo = () => {
+    const current = getDesignSnapshot();
+    const committed = committedSnapshotRef.current;
 
-    // Check if intersection is within both line segments
-    if (t >= 0 && t <= 1 && u >= 0 && u <= 1) {
-      return {
-        x: x1 + t * (x2 - x1),
-        y: y1 + t * (y2 - y1)
-      };
+    // A new change replaces whatever could have been redone
+    if (committed !== null && !isSameSnapshot(committed, current)) {
+      commitSnapshot(current);
+      return;
     }
 
-    return null;
-  };
+    const next = history.future[0];
+    if (!next) return;
 
-  // Generate new pattern
-  const generatePattern = () => {
-    const randomPoints = generateRandomPoints(numPoints, seed);
-    setPoints(randomPoints);
+    restoreSnapshot(next);
+    setHistory({
+      past: [...history.past, current].slice(-MAX_HISTORY_LENGTH),
+      future: history.future.slice(1)
+    });
   };
 
-  // Update canvas size based on container
+  // Undo/redo keyboard shortcuts
   useEffect(() => {
-    const updateCanvasSize = () => {
-      if (containerRef.current) {
-        const containerWidth = containerRef.current.clientWidth - 24; // Account for padding
-        const aspectRatio = 4 / 3; // 4:3 aspect ratio
-        const newHeight = containerWidth / aspectRatio;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      // Text fields keep their own undo
+      const target = event.target as HTMLElement | null;
+      if (target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLInputElement && ['text', 'number'].includes(target.type))) {
+        return;
+      }
 
-        setCanvasSize({
-          width: containerWidth,
-          height: Math.max(400, Math.min(600, newHeight)) // Min 400px, max 600px height
-        });
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
       }
     };
 
-    updateCanvasSize();
-    window.addEventListener('resize', updateCanvasSize);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
-    return () => window.removeEventListener('resize', updateCanvasSize);
-  }, []);
+  // Helper function to trace a closed polygon onto the current path of a context
+  const tracePolygon = (ctx: CanvasRenderingContext2D, polygon: number[][]) => {
+    ctx.moveTo(polygon[0][0], polygon[0][1]);
+    for (let j = 1; j < polygon.length; j++) {
+      ctx.lineTo(polygon[j][0], polygon[j][1]);
+    }
+    ctx.closePath();
+  };
 
-  // Create default circle when boundary is enabled or canvas size changes
-  useEffect(() => {
-    if (useCustomShape && canvasSize.width > 0 && canvasSize.height > 0) {
-      // Always calculate exact center
-      const centerX = canvasSize.width / 2;
-      const centerY = canvasSize.height / 2;
-      // Use a slightly smaller radius to ensure it fits well within canvas bounds
-      const radius = Math.min(canvasSize.width, canvasSize.height) * 0.45; // 80% of smaller dimension
-
-      const jaggedPointsArray = generateJaggedCircle(
-        { x: centerX, y: centerY },
-        radius,
-        jaggedPoints,
-        jaggedness,
-        boundarySeed
-      );
+  // Helper function to trace a ring whose bulged edges are arcs
+  const traceArcRing = (ctx: CanvasRenderingContext2D, ring: ArcVertex[]) => {
+    ctx.moveTo(ring[0].x, ring[0].y);
+    ring.forEach((vertex, j) => {
+      const next = ring[(j + 1) % ring.length];
+      if (vertex.bulge === 0) {
+        ctx.lineTo(next.x, next.y);
+      } else {
+        const { center, radius, startAngle, sweepAngle } = getBulgeArc(vertex, next, vertex.bulge);
+        ctx.arc(center.x, center.y, radius, startAngle, startAngle + sweepAngle, sweepAngle < 0);
+      }
+    });
+    ctx.closePath();
+  };
 
-      setCustomCircle({
-        center: { x: centerX, y: centerY },
-        baseRadius: radius,
-        jaggedPoints: jaggedPointsArray
+  // Draw the pattern in design coordinates: fills and lines as the display options show them
+  const drawPattern = (ctx: CanvasRenderingContext2D, delaunay: Delaunay<Delaunay.Point>, voronoi: Voronoi<Delaunay.Point>) => {
+    // Clip cells to the boundary as closed polygons
+    const { cells, insetCells, cellRegions, insetRegions } = getClippedCells(design, voronoi);
+
+    // Fill cells, or the inset cells when the double border is shown
+    if (fillMode !== 'none' && palette.length > 0) {
+      const colorIndices = getCellColorIndices(design, delaunay, cellRegions, fillMode, palette.length);
+      (showDoubleBorder ? insetRegions : cellRegions).forEach((region, i) => {
+        if (region.length === 0 || colorIndices[i] < 0) return;
+        ctx.fillStyle = palette[colorIndices[i]];
+        ctx.beginPath();
+        region.forEach(ring => showDoubleBorder ? traceArcRing(ctx, filletPolygon(ring, filletRadius)) : tracePolygon(ctx, ring));
+        ctx.fill('evenodd');
       });
     }
-  }, [useCustomShape, canvasSize.width, canvasSize.height, jaggedness, jaggedPoints, boundarySeed]);
 
-  // Update jagged points when parameters change (but keep center position fixed)
-  useEffect(() => {
-    if (useCustomShape && customCircle) {
-      // Ensure center is always perfectly centered on canvas
-      const centerX = canvasSize.width / 2;
-      const centerY = canvasSize.height / 2;
-
-      const jaggedPointsArray = generateJaggedCircle(
-        { x: centerX, y: centerY },
-        customCircle.baseRadius,
-        jaggedPoints,
-        jaggedness,
-        boundarySeed
-      );
-      setCustomCircle(prevCircle => prevCircle ? {
-        ...prevCircle,
-        center: { x: centerX, y: centerY }, // Always use exact center
-        jaggedPoints: jaggedPointsArray
-      } : null);
+    // Draw Voronoi diagram
+    if (showVoronoi) {
+      ctx.strokeStyle = '#2563eb';
+      ctx.lineWidth = strokeWidth;
+
+      ctx.beginPath();
+      if (boundary) {
+        cells.forEach(cell => tracePolygon(ctx, cell));
+      } else {
+        // Normal Voronoi rendering when no custom shape
+        voronoi.render(ctx);
+      }
+      ctx.stroke();
     }
-  }, [jaggedness, jaggedPoints, boundarySeed, useCustomShape, canvasSize.width, canvasSize.height]);
 
-  // Initialize with random points
-  useEffect(() => {
-    generatePattern();
-  }, [numPoints, seed, canvasSize.width, canvasSize.height, useCustomShape, randomness]);
+    // Draw double border (inset Voronoi cells) with filleted corners
+    if (showDoubleBorder) {
+      ctx.strokeStyle = '#1d4ed8'; // Slightly darker blue for inner border
+      ctx.lineWidth = strokeWidth;
+
+      ctx.beginPath();
+      insetCells.forEach(cell => traceArcRing(ctx, filletPolygon(cell, filletRadius)));
+      ctx.stroke();
+    }
+
+    // Draw Delaunay triangulation
+    if (showDelaunay) {
+      ctx.strokeStyle = '#dc2626';
+      ctx.lineWidth = strokeWidth;
+
+      ctx.beginPath();
+      if (boundary) {
+        getClippedTriangles(design, delaunay).forEach(triangle => tracePolygon(ctx, triangle));
+      } else {
+        // Normal Delaunay rendering when no custom shape
+        delaunay.render(ctx);
+      }
+      ctx.stroke();
+    }
+  };
 
   // Draw on canvas
   useEffect(() => {
@@ -423,140 +696,144 @@ export default function VoronoiDesigner() {
     if (!canvas || points.length === 0) return;
 
     const ctx = canvas.getContext('2d')!;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, canvasSize.width, canvasSize.height);
 
+    // Draw in design coordinates, scaled to fit the canvas
+    const viewScale = canvasSize.width / designSize.width;
+    ctx.setTransform(viewScale, 0, 0, viewScale, 0, 0);
+
     // Create Delaunay triangulation
-    const delaunay = Delaunay.from(points.map(p => [p.x, p.y]));
-    const voronoi = delaunay.voronoi([0, 0, canvasSize.width, canvasSize.height]);
+    const { delaunay, voronoi } = createDiagram(points, designSize);
 
-    // Draw custom circle boundary
-    if (useCustomShape && customCircle) {
+    // Draw custom boundary
+    if (boundary) {
       ctx.strokeStyle = '#059669'; // Green color for custom boundary
       ctx.lineWidth = 2;
       ctx.setLineDash([5, 5]); // Dashed line
 
       ctx.beginPath();
-      if (customCircle.jaggedPoints.length > 0) {
-        // Draw jagged boundary
-        ctx.moveTo(customCircle.jaggedPoints[0].x, customCircle.jaggedPoints[0].y);
-        for (let i = 1; i < customCircle.jaggedPoints.length; i++) {
-          ctx.lineTo(customCircle.jaggedPoints[i].x, customCircle.jaggedPoints[i].y);
-        }
-        ctx.closePath();
-      } else {
-        // Fallback to circle if no jagged points
-        console.log(customCircle.baseRadius)
-        ctx.arc(customCircle.center.x, customCircle.center.y, customCircle.baseRadius, 0, 2 * Math.PI);
+      ctx.moveTo(boundary.vertices[0].x, boundary.vertices[0].y);
+      for (let i = 1; i < boundary.vertices.length; i++) {
+        ctx.lineTo(boundary.vertices[i].x, boundary.vertices[i].y);
       }
+      ctx.closePath();
       ctx.stroke();
 
       ctx.setLineDash([]); // Reset line dash
     }
 
-    // Draw Voronoi diagram
-    if (showVoronoi) {
-      ctx.strokeStyle = '#2563eb';
-      ctx.lineWidth = strokeWidth;
+    drawPattern(ctx, delaunay, voronoi);
 
-      if (useCustomShape && customCircle) {
-        // Clip Voronoi edges to boundary
-        for (let i = 0; i < points.length; i++) {
-          const cell = voronoi.cellPolygon(i);
-          if (cell && cell.length > 2) {
-            for (let j = 0; j < cell.length; j++) {
-              const start = { x: cell[j][0], y: cell[j][1] };
-              const end = { x: cell[(j + 1) % cell.length][0], y: cell[(j + 1) % cell.length][1] };
-
-              const clippedLine = clipLineToShape(start, end);
-              if (clippedLine) {
-                ctx.beginPath();
-                ctx.moveTo(clippedLine[0].x, clippedLine[0].y);
-                ctx.lineTo(clippedLine[1].x, clippedLine[1].y);
-                ctx.stroke();
-              }
-            }
-          }
-        }
-      } else {
-        // Normal Voronoi rendering when no custom shape
+    // Draw keep-out zones, with their margin dashed
+    if (keepOutGeometry.outlines.length > 0) {
+      ctx.strokeStyle = '#ea580c';
+      ctx.lineWidth = 2;
+
+      ctx.beginPath();
+      keepOutGeometry.outlines.forEach(outline => tracePolygon(ctx, outline));
+      ctx.stroke();
+
+      if (keepOutMargin > 0) {
+        ctx.setLineDash([3, 3]);
+        ctx.lineWidth = 1;
         ctx.beginPath();
-        voronoi.render(ctx);
+        keepOutGeometry.zones.forEach(zone => tracePolygon(ctx, zone));
         ctx.stroke();
+        ctx.setLineDash([]);
       }
     }
 
-    // Draw double border (inset Voronoi cells)
-    if (showDoubleBorder) {
-      ctx.strokeStyle = '#1d4ed8'; // Slightly darker blue for inner border
-      ctx.lineWidth = strokeWidth;
+    // Overlay the kerf-compensated cut paths the exports will contain
+    const kerfOffset = getKerfOffset(design, kerfCompensation ? materialProfile.kerfMM : 0);
+    if (kerfOffset > 0) {
+      ctx.strokeStyle = '#9333ea';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 2]);
 
-      for (let i = 0; i < points.length; i++) {
-        const cell = voronoi.cellPolygon(i);
-        if (cell && cell.length > 2) {
-          const insetCell = createInsetPolygon(cell, borderOffset);
-
-          if (useCustomShape && customCircle) {
-            // Clip inset cell edges to boundary
-            for (let j = 0; j < insetCell.length; j++) {
-              const start = { x: insetCell[j][0], y: insetCell[j][1] };
-              const end = { x: insetCell[(j + 1) % insetCell.length][0], y: insetCell[(j + 1) % insetCell.length][1] };
-
-              const clippedLine = clipLineToShape(start, end);
-              if (clippedLine) {
-                ctx.beginPath();
-                ctx.moveTo(clippedLine[0].x, clippedLine[0].y);
-                ctx.lineTo(clippedLine[1].x, clippedLine[1].y);
-                ctx.stroke();
-              }
-            }
-          } else {
-            // Normal inset cell rendering when no custom shape
-            ctx.beginPath();
-            ctx.moveTo(insetCell[0][0], insetCell[0][1]);
-            for (let j = 1; j < insetCell.length; j++) {
-              ctx.lineTo(insetCell[j][0], insetCell[j][1]);
-            }
-            ctx.closePath();
-            ctx.stroke();
-          }
-        }
-      }
+      ctx.beginPath();
+      if (showDoubleBorder) getClippedCells(design, voronoi, kerfOffset).insetCells.forEach(cell => tracePolygon(ctx, cell));
+      getBoundaryCutPath(design, kerfOffset).forEach(path => tracePolygon(ctx, path));
+      getKeepOutCutPaths(design, kerfOffset).forEach(path => tracePolygon(ctx, path));
+      ctx.stroke();
+
+      ctx.setLineDash([]);
     }
 
-    // Draw Delaunay triangulation
-    if (showDelaunay) {
-      ctx.strokeStyle = '#dc2626';
-      ctx.lineWidth = strokeWidth;
+    // Highlight manufacturability problems
+    if (manufacturingIssues.length > 0) {
+      ctx.fillStyle = 'rgba(220, 38, 38, 0.25)';
+      ctx.beginPath();
+      manufacturingIssues.forEach(issue => {
+        if (issue.type !== 'thinWeb') issue.region.forEach(ring => tracePolygon(ctx, ring));
+      });
+      ctx.fill('evenodd');
 
-      if (useCustomShape && customCircle) {
-        // Clip Delaunay edges to boundary
-        for (let i = 0; i < delaunay.triangles.length; i += 3) {
-          const p1 = points[delaunay.triangles[i]];
-          const p2 = points[delaunay.triangles[i + 1]];
-          const p3 = points[delaunay.triangles[i + 2]];
-
-          // Draw three edges of the triangle, clipped to boundary
-          const edges = [[p1, p2], [p2, p3], [p3, p1]];
-          for (const [start, end] of edges) {
-            const clippedLine = clipLineToShape(start, end);
-            if (clippedLine) {
-              ctx.beginPath();
-              ctx.moveTo(clippedLine[0].x, clippedLine[0].y);
-              ctx.lineTo(clippedLine[1].x, clippedLine[1].y);
-              ctx.stroke();
-            }
-          }
-        }
-      } else {
-        // Normal Delaunay rendering when no custom shape
+      ctx.strokeStyle = '#dc2626';
+      ctx.fillStyle = '#dc2626';
+      ctx.lineWidth = 3;
+      manufacturingIssues.forEach(issue => {
+        if (issue.type !== 'thinWeb') return;
         ctx.beginPath();
-        delaunay.render(ctx);
+        ctx.moveTo(issue.from.x, issue.from.y);
+        ctx.lineTo(issue.to.x, issue.to.y);
         ctx.stroke();
-      }
+        ctx.beginPath();
+        ctx.arc((issue.from.x + issue.to.x) / 2, (issue.from.y + issue.to.y) / 2, 4, 0, 2 * Math.PI);
+        ctx.fill();
+      });
     }
 
-    // Draw points
-    if (showPoints) {
+    // Draw the physical dimensions of the boundary, or of the whole document without one
+    const scaleFactor = getScaleFactor(design);
+    const box = boundary
+      ? {
+        left: boundary.center.x - boundary.width / 2,
+        top: boundary.center.y - boundary.height / 2,
+        width: boundary.width,
+        height: boundary.height
+      }
+      : { left: 0, top: 0, width: designSize.width, height: designSize.height };
+    const dimensionY = Math.max(8, box.top - 10);
+    const dimensionX = Math.max(8, box.left - 10);
+
+    ctx.strokeStyle = '#6b7280';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(box.left, dimensionY);
+    ctx.lineTo(box.left + box.width, dimensionY);
+    ctx.moveTo(box.left, dimensionY - 4);
+    ctx.lineTo(box.left, dimensionY + 4);
+    ctx.moveTo(box.left + box.width, dimensionY - 4);
+    ctx.lineTo(box.left + box.width, dimensionY + 4);
+    ctx.moveTo(dimensionX, box.top);
+    ctx.lineTo(dimensionX, box.top + box.height);
+    ctx.moveTo(dimensionX - 4, box.top);
+    ctx.lineTo(dimensionX + 4, box.top);
+    ctx.moveTo(dimensionX - 4, box.top + box.height);
+    ctx.lineTo(dimensionX + 4, box.top + box.height);
+    ctx.stroke();
+
+    // Helper function to draw a dimension label on a white background
+    const drawDimensionLabel = (text: string, x: number, y: number, angle: number) => {
+      ctx.save();
+      ctx.translate(x, y);
+      ctx.rotate(angle);
+      ctx.font = '11px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      const textWidth = ctx.measureText(text).width;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(-textWidth / 2 - 3, -7, textWidth + 6, 14);
+      ctx.fillStyle = '#4b5563';
+      ctx.fillText(text, 0, 0);
+      ctx.restore();
+    };
+    drawDimensionLabel(formatLength(box.width * scaleFactor), box.left + box.width / 2, dimensionY, 0);
+    drawDimensionLabel(formatLength(box.height * scaleFactor), dimensionX, box.top + box.height / 2, -Math.PI / 2);
+
+    // Draw points (always shown while editing so they can be grabbed)
+    if (showPoints || editMode) {
       ctx.fillStyle = '#1f2937';
       points.forEach(point => {
         ctx.beginPath();
@@ -564,182 +841,532 @@ export default function VoronoiDesigner() {
         ctx.fill();
       });
     }
+
+    // Highlight selected points
+    if (editMode && selectedPoints.size > 0) {
+      ctx.strokeStyle = '#ea580c';
+      ctx.lineWidth = 2;
+      selectedPoints.forEach(index => {
+        const point = points[index];
+        if (!point) return;
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, 6, 0, 2 * Math.PI);
+        ctx.stroke();
+      });
+    }
+
+    // Draw selection box
+    if (selectionBox) {
+      ctx.strokeStyle = '#ea580c';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.strokeRect(
+        selectionBox.start.x,
+        selectionBox.start.y,
+        selectionBox.end.x - selectionBox.start.x,
+        selectionBox.end.y - selectionBox.start.y
+      );
+      ctx.setLineDash([]);
+    }
     // eslint-disable-next-line
-  }, [points, showPoints, showVoronoi, showDelaunay, showDoubleBorder, borderOffset, strokeWidth, useCustomShape, customCircle]);
+  }, [points, showPoints, showVoronoi, showDelaunay, showDoubleBorder, fillMode, palette, seed, borderOffset, borderJoin, filletRadius, strokeWidth, boundary, keepOutGeometry, keepOutMargin, kerfCompensation, materialProfile.kerfMM, physicalWidthMM, documentUnit, manufacturingIssues, editMode, selectedPoints, selectionBox, canvasSize]);
 
-  // Add point on canvas click
-  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+  // Convert a mouse event to design coordinates
+  const getCanvasPoint = (event: React.MouseEvent<HTMLCanvasElement>): Point | null => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas) return null;
 
     const rect = canvas.getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const y = event.clientY - rect.top;
+    return {
+      x: (event.clientX - rect.left) * (designSize.width / rect.width),
+      y: (event.clientY - rect.top) * (designSize.height / rect.height)
+    };
+  };
 
-    if (!useCustomShape || (useCustomShape && isPointInCustomShape({ x, y }))) {
-      // Only add points if not using custom shape, or if point is inside custom shape
-      setPoints([...points, { x, y }]);
-    }
+  // Helper function to check if a point may be placed at a position
+  const isPointPlaceable = (point: Point): boolean =>
+    point.x >= 0 && point.x <= designSize.width &&
+    point.y >= 0 && point.y <= designSize.height &&
+    (!useCustomShape || isPointInShape(point, design));
+
+  // Find the point closest to a position within the hit radius
+  const hitTestPoint = (position: Point): number | null => {
+    // 8 screen pixels, whatever the canvas size
+    const hitRadius = 8 * designSize.width / canvasSize.width;
+    let closestIndex: number | null = null;
+    let closestDistance = hitRadius;
+    points.forEach((point, index) => {
+      const distance = Math.hypot(point.x - position.x, point.y - position.y);
+      if (distance <= closestDistance) {
+        closestDistance = distance;
+        closestIndex = index;
+      }
+    });
+    return closestIndex;
   };
 
-  // Clear custom circle
-  const clearCustomShape = () => {
-    setCustomCircle(null);
+  // Move the given points by an offset, or return null if any of them would leave the boundary
+  const movePoints = (basePoints: Point[], indices: number[], dx: number, dy: number): Point[] | null => {
+    const moved = [...basePoints];
+    for (const index of indices) {
+      const point = { x: basePoints[index].x + dx, y: basePoints[index].y + dy };
+      if (!isPointPlaceable(point)) return null;
+      moved[index] = point;
+    }
+    return moved;
   };
 
-  // Export to DXF
-  const exportToDXF = () => {
-    if (points.length === 0) return;
+  // Start dragging a point or a selection box
+  const handleCanvasMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!editMode) return;
+
+    const position = getCanvasPoint(event);
+    if (!position) return;
 
-    const drawing = new Drawing();
+    stopRelaxation();
+    const hitIndex = hitTestPoint(position);
 
-    // Calculate scale factor to convert pixels to millimeters
-    // Scale based on the custom circle diameter if it exists
-    let scaleFactor = 1;
-    if (useCustomShape && customCircle) {
-      const currentDiameterPixels = customCircle.baseRadius * 2;
-      scaleFactor = circleDiameterMM / currentDiameterPixels;
+    if (hitIndex === null) {
+      canvasDragRef.current = { type: 'box', start: position, additive: event.shiftKey };
+      setSelectionBox({ start: position, end: position });
+      if (!event.shiftKey) setSelectedPoints(new Set());
+      return;
     }
 
-    // Helper function to scale coordinates
-    const scaleCoord = (coord: number) => coord * scaleFactor;
-
-    // Create Delaunay triangulation and Voronoi diagram
-    const delaunay = Delaunay.from(points.map(p => [p.x, p.y]));
-    const voronoi = delaunay.voronoi([0, 0, canvasSize.width, canvasSize.height]);
-
-    // Add Voronoi cells to DXF
-    if (exportVoronoi) {
-      for (let i = 0; i < points.length; i++) {
-        const cell = voronoi.cellPolygon(i);
-        if (cell && cell.length > 2) {
-          // Create polyline for each cell
-          for (let j = 0; j < cell.length; j++) {
-            const start = { x: cell[j][0], y: cell[j][1] };
-            const end = { x: cell[(j + 1) % cell.length][0], y: cell[(j + 1) % cell.length][1] };
-
-            if (useCustomShape && customCircle) {
-              const clippedLine = clipLineToShape(start, end);
-              if (clippedLine) {
-                drawing.drawLine(
-                  scaleCoord(clippedLine[0].x),
-                  scaleCoord(clippedLine[0].y),
-                  scaleCoord(clippedLine[1].x),
-                  scaleCoord(clippedLine[1].y)
-                );
-              }
-            } else {
-              drawing.drawLine(scaleCoord(start.x), scaleCoord(start.y), scaleCoord(end.x), scaleCoord(end.y));
-            }
-          }
-        }
+    let selection = selectedPoints;
+    if (event.shiftKey) {
+      // Shift-click toggles a point without dragging
+      selection = new Set(selectedPoints);
+      if (selection.has(hitIndex)) {
+        selection.delete(hitIndex);
+      } else {
+        selection.add(hitIndex);
       }
+      setSelectedPoints(selection);
+      return;
     }
 
-    // Add Delaunay triangles to DXF
-    if (exportDelaunay) {
-      for (let i = 0; i < delaunay.triangles.length; i += 3) {
-        const p1 = points[delaunay.triangles[i]];
-        const p2 = points[delaunay.triangles[i + 1]];
-        const p3 = points[delaunay.triangles[i + 2]];
-
-        const edges = [[p1, p2], [p2, p3], [p3, p1]];
-        for (const [start, end] of edges) {
-          if (useCustomShape && customCircle) {
-            const clippedLine = clipLineToShape(start, end);
-            if (clippedLine) {
-              drawing.drawLine(
-                scaleCoord(clippedLine[0].x),
-                scaleCoord(clippedLine[0].y),
-                scaleCoord(clippedLine[1].x),
-                scaleCoord(clippedLine[1].y)
-              );
-            }
-          } else {
-            drawing.drawLine(scaleCoord(start.x), scaleCoord(start.y), scaleCoord(end.x), scaleCoord(end.y));
-          }
-        }
-      }
+    if (!selection.has(hitIndex)) {
+      selection = new Set([hitIndex]);
+      setSelectedPoints(selection);
     }
 
-    // Add double border (inset Voronoi cells) to DXF
-    if (exportDoubleBorder) {
-      for (let i = 0; i < points.length; i++) {
-        const cell = voronoi.cellPolygon(i);
-        if (cell && cell.length > 2) {
-          const insetCell = createInsetPolygon(cell, borderOffset);
-
-          // Create polyline for each inset cell
-          for (let j = 0; j < insetCell.length; j++) {
-            const start = { x: insetCell[j][0], y: insetCell[j][1] };
-            const end = { x: insetCell[(j + 1) % insetCell.length][0], y: insetCell[(j + 1) % insetCell.length][1] };
-
-            if (useCustomShape && customCircle) {
-              const clippedLine = clipLineToShape(start, end);
-              if (clippedLine) {
-                drawing.drawLine(
-                  scaleCoord(clippedLine[0].x),
-                  scaleCoord(clippedLine[0].y),
-                  scaleCoord(clippedLine[1].x),
-                  scaleCoord(clippedLine[1].y)
-                );
-              }
-            } else {
-              drawing.drawLine(scaleCoord(start.x), scaleCoord(start.y), scaleCoord(end.x), scaleCoord(end.y));
-            }
-          }
-        }
-      }
+    canvasDragRef.current = { type: 'move', origin: position, indices: Array.from(selection), startPoints: points };
+  };
+
+  // Update the drag in progress
+  const handleCanvasMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = canvasDragRef.current;
+    if (!drag) return;
+
+    const position = getCanvasPoint(event);
+    if (!position) return;
+
+    if (drag.type === 'box') {
+      setSelectionBox({ start: drag.start, end: position });
+      return;
     }
 
-    // Add points to DXF
-    if (exportPoints) {
-      points.forEach(point => {
-        drawing.drawPoint(scaleCoord(point.x), scaleCoord(point.y));
+    // Moves that would push a point outside the boundary are rejected, keeping the last valid position
+    const moved = movePoints(drag.startPoints, drag.indices, position.x - drag.origin.x, position.y - drag.origin.y);
+    if (moved) setPoints(moved);
+  };
+
+  // Finish the drag in progress
+  const handleCanvasMouseUp = () => {
+    const drag = canvasDragRef.current;
+    canvasDragRef.current = null;
+
+    if (drag?.type === 'box' && selectionBox) {
+      const minX = Math.min(selectionBox.start.x, selectionBox.end.x);
+      const maxX = Math.max(selectionBox.start.x, selectionBox.end.x);
+      const minY = Math.min(selectionBox.start.y, selectionBox.end.y);
+      const maxY = Math.max(selectionBox.start.y, selectionBox.end.y);
+
+      const selection = new Set(drag.additive ? selectedPoints : []);
+      points.forEach((point, index) => {
+        if (point.x >= minX && point.x <= maxX && point.y >= minY && point.y <= maxY) {
+          selection.add(index);
+        }
       });
+      setSelectedPoints(selection);
     }
+    setSelectionBox(null);
+  };
 
-    // Add custom circle boundary to DXF
-    if (useCustomShape && customCircle && exportBoundary) {
-      if (customCircle.jaggedPoints.length > 0) {
-        // Draw jagged boundary as connected line segments
-        for (let i = 0; i < customCircle.jaggedPoints.length; i++) {
-          const current = customCircle.jaggedPoints[i];
-          const next = customCircle.jaggedPoints[(i + 1) % customCircle.jaggedPoints.length];
-          drawing.drawLine(scaleCoord(current.x), scaleCoord(current.y), scaleCoord(next.x), scaleCoord(next.y));
-        }
-      } else {
-        // Fallback: Draw circle as multiple line segments for DXF compatibility
-        const segments = 64; // Number of segments to approximate circle
-        const angleStep = (2 * Math.PI) / segments;
+  // Delete or nudge the selected points with the keyboard
+  useEffect(() => {
+    if (!editMode) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Leave keys alone while typing in form controls
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+      if (selectedPoints.size === 0) return;
+
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault();
+        stopRelaxation();
+        setPoints(points.filter((_, index) => !selectedPoints.has(index)));
+        setSelectedPoints(new Set());
+        return;
+      }
+
+      const step = event.shiftKey ? 10 : 1;
+      const nudges: Record<string, [number, number]> = {
+        ArrowLeft: [-step, 0],
+        ArrowRight: [step, 0],
+        ArrowUp: [0, -step],
+        ArrowDown: [0, step]
+      };
+      const nudge = nudges[event.key];
+      if (nudge) {
+        event.preventDefault();
+        stopRelaxation();
+        const moved = movePoints(points, Array.from(selectedPoints), nudge[0], nudge[1]);
+        if (moved) setPoints(moved);
+      }
+    };
 
-        for (let i = 0; i < segments; i++) {
-          const angle1 = i * angleStep;
-          const angle2 = ((i + 1) % segments) * angleStep;
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+    // eslint-disable-next-line
+  }, [editMode, selectedPoints, points]);
 
-          const x1 = customCircle.center.x + customCircle.baseRadius * Math.cos(angle1);
-          const y1 = customCircle.center.y + customCircle.baseRadius * Math.sin(angle1);
-          const x2 = customCircle.center.x + customCircle.baseRadius * Math.cos(angle2);
-          const y2 = customCircle.center.y + customCircle.baseRadius * Math.sin(angle2);
+  // Add point on canvas click
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (editMode) return;
 
-          drawing.drawLine(scaleCoord(x1), scaleCoord(y1), scaleCoord(x2), scaleCoord(y2));
-        }
-      }
+    const position = getCanvasPoint(event);
+    if (!position) return;
+
+    if (!useCustomShape || (useCustomShape && isPointInShape(position, design))) {
+      // Only add points if not using custom shape, or if point is inside custom shape
+      stopRelaxation();
+      setPoints([...points, position]);
+    }
+  };
+
+  // Clear custom boundary
+  const clearCustomShape = () => {
+    setUseCustomShape(false);
+  };
+
+  // Add a keep-out zone at the boundary center
+  const addKeepOut = (shape: KeepOutShape, outline: Point[] | null = null, width = 10, height = 10) => {
+    const id = Math.max(0, ...keepOuts.map(keepOut => keepOut.id)) + 1;
+    setKeepOuts([...keepOuts, { id, shape, x: 0, y: 0, width, height, outline }]);
+  };
+
+  // Update a keep-out zone's position or size
+  const updateKeepOut = (id: number, changes: Partial<KeepOut>) => {
+    setKeepOuts(keepOuts.map(keepOut => keepOut.id === id ? { ...keepOut, ...changes } : keepOut));
+  };
+
+  // Import a keep-out polygon from an SVG or DXF file, at its real size
+  const importKeepOutFile = async (file: File) => {
+    try {
+      const { outline, width, height } = await readOutlineFile(file);
+      addKeepOut('polygon', outline, width, height);
+      setKeepOutImportError(null);
+    } catch (error) {
+      setKeepOutImportError(error instanceof Error ? error.message : 'The outline could not be imported.');
     }
+  };
 
-    // Download DXF file
-    const dxfString = drawing.toDxfString();
-    const blob = new Blob([dxfString], { type: 'application/dxf' });
+  // Trigger a browser download for generated file contents
+  const downloadFile = (contents: BlobPart, mimeType: string, filename: string) => {
+    const blob = new Blob([contents], { type: mimeType });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `voronoi-pattern-${Date.now()}.dxf`;
+    link.download = filename;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
   };
 
+  // Layers selected in the export options
+  const getExportLayers = (): ExportLayers => ({
+    voronoi: exportVoronoi,
+    delaunay: exportDelaunay,
+    points: exportPoints,
+    doubleBorder: exportDoubleBorder,
+    boundary: exportBoundary,
+    keepOuts: exportKeepOuts
+  });
+
+  // Options shared by the DXF and SVG exports
+  const getVectorExportOptions = (): VectorExportOptions => ({
+    layers: getExportLayers(),
+    unit: documentUnit,
+    kerfMM: kerfCompensation ? materialProfile.kerfMM : 0,
+    fillMode: exportFills ? fillMode : 'none',
+    palette
+  });
+
+  // Export to DXF
+  const exportToDXF = () => {
+    if (points.length === 0) return;
+    downloadFile(createDXF(design, getVectorExportOptions()), 'application/dxf', `voronoi-pattern-${Date.now()}.dxf`);
+  };
+
+  // Export to SVG
+  const exportToSVG = () => {
+    if (points.length === 0) return;
+    downloadFile(createSVG(design, getVectorExportOptions()), 'image/svg+xml', `voronoi-pattern-${Date.now()}.svg`);
+  };
+
+  // Export to G-code for pen plotters and CNC routers
+  const exportToGCode = () => {
+    if (points.length === 0) return;
+    downloadFile(createGCode(design, getExportLayers(), gcodeSettings), 'text/plain', `voronoi-pattern-${Date.now()}.gcode`);
+  };
+
+  // Get the PNG size in pixels for the physical size at the chosen DPI
+  const getPngSize = (): { width: number; height: number; pixelsPerUnit: number } => {
+    const pixelsPerUnit = (getScaleFactor(design) / 25.4) * pngDPI;
+    return {
+      width: Math.round(designSize.width * pixelsPerUnit),
+      height: Math.round(designSize.height * pixelsPerUnit),
+      pixelsPerUnit
+    };
+  };
+
+  // Export to PNG, re-rendered offscreen at the chosen DPI
+  const exportToPNG = async () => {
+    if (points.length === 0) return;
+
+    const { width, height, pixelsPerUnit } = getPngSize();
+    if (Math.max(width, height) > MAX_PNG_SIDE) {
+      setPngError(`${width} × ${height}px is too large to render. Lower the DPI or the document size.`);
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      setPngError('The image could not be rendered.');
+      return;
+    }
+
+    if (!pngTransparent) {
+      ctx.fillStyle = pngBackground;
+      ctx.fillRect(0, 0, width, height);
+    }
+
+    // Line widths and point sizes are in design units, so they scale into physical units with the drawing
+    ctx.setTransform(pixelsPerUnit, 0, 0, pixelsPerUnit, 0, 0);
+    const { delaunay, voronoi } = createDiagram(points, designSize);
+    drawPattern(ctx, delaunay, voronoi);
+
+    // Outline the part when the boundary is exported
+    const boundaryPolygon = getBoundaryPolygon(design);
+    if (boundaryPolygon && exportBoundary) {
+      ctx.strokeStyle = '#059669';
+      ctx.lineWidth = strokeWidth;
+      ctx.beginPath();
+      tracePolygon(ctx, boundaryPolygon);
+      ctx.stroke();
+    }
+
+    if (showPoints) {
+      ctx.fillStyle = '#1f2937';
+      points.forEach(point => {
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, 3, 0, 2 * Math.PI);
+        ctx.fill();
+      });
+    }
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) {
+      setPngError('The image could not be encoded.');
+      return;
+    }
+
+    setPngError(null);
+    const png = setPngResolution(new Uint8Array(await blob.arrayBuffer()), pngDPI);
+    downloadFile(png, 'image/png', `voronoi-pattern-${Date.now()}.png`);
+  };
+
+  // Build the project document for the current design
+  const createProjectFile = (): ProjectFile => {
+    // Quantize the density map to 8 bits to keep files small
+    let densityImageData: ProjectFile['generation']['density']['image'] = null;
+    if (densityImage) {
+      let binary = '';
+      densityImage.values.forEach(value => {
+        binary += String.fromCharCode(Math.round(value * 255));
+      });
+      densityImageData = { width: densityImage.width, height: densityImage.height, data: btoa(binary) };
+    }
+
+    return {
+      format: PROJECT_FORMAT,
+      version: PROJECT_VERSION,
+      canvas: { width: designSize.width, height: designSize.height },
+      points,
+      boundary: {
+        enabled: useCustomShape,
+        shape: boundaryShape,
+        aspect: boundaryAspect,
+        cornerRadius,
+        sides: polygonSides,
+        imported: importedOutline,
+        vertices: boundary?.vertices ?? [],
+        seed: boundarySeed,
+        jaggedness,
+        jaggedPoints
+      },
+      generation: {
+        numPoints,
+        seed,
+        randomness,
+        relaxIterations,
+        distribution,
+        minSpacingMM,
+        fillToSaturation,
+        density: {
+          mode: densityMode,
+          strength: densityStrength,
+          angle: densityAngle,
+          invert: densityInvert,
+          image: densityImageData
+        }
+      },
+      keepOuts: { margin: keepOutMargin, zones: keepOuts },
+      border: { offset: borderOffset, join: borderJoin, filletRadius },
+      display: { showPoints, showVoronoi, showDelaunay, showDoubleBorder, strokeWidth, fill: { mode: fillMode, palette } },
+      export: {
+        voronoi: exportVoronoi,
+        delaunay: exportDelaunay,
+        points: exportPoints,
+        doubleBorder: exportDoubleBorder,
+        boundary: exportBoundary,
+        keepOuts: exportKeepOuts,
+        kerfCompensation,
+        fills: exportFills,
+        png: { dpi: pngDPI, transparent: pngTransparent, background: pngBackground },
+        gcode: gcodeSettings
+      },
+      physical: { widthMM: physicalWidthMM, aspect: documentAspect, unit: documentUnit },
+      material: materialProfile
+    };
+  };
+
+  // Apply an opened project to the designer. parseProjectFile has checked every value,
+  // so nothing below can fail halfway through.
+  const loadProjectFile = (project: ProjectFile) => {
+    // Map stored coordinates onto the design space; projects saved before it was fixed used the canvas size
+    const parameters = getProjectDesignParameters(project);
+    const size = getDesignSize(parameters);
+    const scale = Math.min(size.width, size.height) / Math.min(project.canvas.width, project.canvas.height);
+    const mapPoint = (point: Point): Point => ({
+      x: size.width / 2 + (point.x - project.canvas.width / 2) * scale,
+      y: size.height / 2 + (point.y - project.canvas.height / 2) * scale
+    });
+
+    applyDesignSnapshot({ points: project.points.map(mapPoint), ...parameters });
+
+    setShowPoints(project.display.showPoints);
+    setShowVoronoi(project.display.showVoronoi);
+    setShowDelaunay(project.display.showDelaunay);
+    setShowDoubleBorder(project.display.showDoubleBorder);
+    setFillMode(project.display.fill.mode);
+    setPalette(project.display.fill.palette);
+    setStrokeWidth(project.display.strokeWidth);
+
+    setExportVoronoi(project.export.voronoi);
+    setExportDelaunay(project.export.delaunay);
+    setExportPoints(project.export.points);
+    setExportDoubleBorder(project.export.doubleBorder);
+    setExportBoundary(project.export.boundary);
+    setExportKeepOuts(project.export.keepOuts);
+    setKerfCompensation(project.export.kerfCompensation);
+    setExportFills(project.export.fills);
+    setPngDPI(project.export.png.dpi);
+    setPngTransparent(project.export.png.transparent);
+    setPngBackground(project.export.png.background);
+    setGcodeSettings(project.export.gcode);
+    setDocumentUnit(project.physical.unit);
+
+    setMaterialProfile(project.material);
+  };
+
+  // Save the project as a .voronoi.json file
+  const saveProject = () => {
+    downloadFile(
+      JSON.stringify(createProjectFile(), null, 2),
+      'application/json',
+      `voronoi-project-${Date.now()}.voronoi.json`
+    );
+  };
+
+  // Open a .voronoi.json project file
+  const openProject = async (file: File) => {
+    try {
+      loadProjectFile(parseProjectFile(await file.text()));
+      setProjectError(null);
+    } catch (error) {
+      setProjectError(error instanceof Error ? error.message : 'The project could not be opened.');
+    }
+  };
+
+  // Encode a project as a deflated, base64url string for the URL
+  const encodePermalink = async (project: ProjectFile): Promise<string> => {
+    const compact: ProjectFile = {
+      ...project,
+      // Sub-pixel precision beyond 0.01 is invisible and doubles the link length
+      points: project.points.map(p => ({ x: Math.round(p.x * 100) / 100, y: Math.round(p.y * 100) / 100 })),
+      boundary: {
+        ...project.boundary,
+        vertices: project.boundary.vertices.map(p => ({ x: Math.round(p.x * 100) / 100, y: Math.round(p.y * 100) / 100 }))
+      },
+      // Density images are far too large for a URL
+      generation: {
+        ...project.generation,
+        density: { ...project.generation.density, image: null }
+      }
+    };
+
+    const stream = new Blob([JSON.stringify(compact)]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+    let binary = '';
+    bytes.forEach(byte => {
+      binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  };
+
+  // Decode a permalink string back into a project
+  const decodePermalink = async (encoded: string): Promise<ProjectFile> => {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return parseProjectFile(await new Response(stream).text());
+  };
+
+  // Copy a link that reproduces the current design
+  const copyPermalink = async () => {
+    try {
+      const encoded = await encodePermalink(createProjectFile());
+      const url = `${window.location.origin}${window.location.pathname}#${PERMALINK_PARAM}=${encoded}`;
+      window.history.replaceState(null, '', url);
+      await navigator.clipboard.writeText(url);
+      setProjectError(null);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      setProjectError(
+        `The link could not be copied. ${error instanceof Error ? error.message : ''}`.trim()
+      );
+    }
+  };
+
   // Generate new seed
   const randomizeSeed = () => {
     setSeed(Date.now());
@@ -759,38 +1386,107 @@ export default function VoronoiDesigner() {
 
             {/* Essential Controls */}
             <div className="space-y-4">
-              {/* Number of Points */}
+              {/* Point Distribution */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Points: {numPoints}
+                  Distribution
                 </label>
-                <input
-                  type="range"
-                  min="10"
-                  max="200"
-                  value={numPoints}
-                  onChange={(e) => setNumPoints(parseInt(e.target.value))}
-                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                />
+                <select
+                  value={distribution}
+                  onChange={(e) => setDistribution(e.target.value as PointDistribution)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="blend">Grid / Random Blend</option>
+                  <option value="poisson">Poisson Disk (Minimum Spacing)</option>
+                </select>
               </div>
 
+              {/* Number of Points */}
+              {(distribution === 'blend' || !fillToSaturation) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {distribution === 'poisson' ? 'Max Points' : 'Points'}: {numPoints}
+                  </label>
+                  <input
+                    type="range"
+                    min={DESIGN_PARAMETER_RANGES.numPoints.min}
+                    max={DESIGN_PARAMETER_RANGES.numPoints.max}
+                    value={numPoints}
+                    onChange={(e) => setNumPoints(parseInt(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                  />
+                </div>
+              )}
+
+              {/* Poisson-disk spacing */}
+              {distribution === 'poisson' && (
+                <div className="space-y-2">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Min Spacing: {minSpacingMM}mm
+                    </label>
+                    <input
+                      type="range"
+                      min={DESIGN_PARAMETER_RANGES.minSpacingMM.min}
+                      max={DESIGN_PARAMETER_RANGES.minSpacingMM.max}
+                      step="1"
+                      value={minSpacingMM}
+                      onChange={(e) => setMinSpacingMM(parseInt(e.target.value))}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                    />
+                  </div>
+
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={fillToSaturation}
+                      onChange={(e) => setFillToSaturation(e.target.checked)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">Fill to saturation</span>
+                  </label>
+                </div>
+              )}
+
               {/* Randomness */}
+              {distribution === 'blend' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Pattern Style: {randomness}%
+                  </label>
+                  <input
+                    type="range"
+                    min={DESIGN_PARAMETER_RANGES.randomness.min}
+                    max={DESIGN_PARAMETER_RANGES.randomness.max}
+                    step="5"
+                    value={randomness}
+                    onChange={(e) => setRandomness(parseInt(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                  />
+                  <div className="flex justify-between text-xs text-gray-500 mt-1">
+                    <span>Ordered</span>
+                    <span>Random</span>
+                  </div>
+                </div>
+              )}
+
+              {/* Relaxation */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Pattern Style: {randomness}%
+                  Relaxation: {relaxIterations} {relaxIterations === 1 ? 'iteration' : 'iterations'}
                 </label>
                 <input
                   type="range"
-                  min="0"
-                  max="100"
-                  step="5"
-                  value={randomness}
-                  onChange={(e) => setRandomness(parseInt(e.target.value))}
+                  min={DESIGN_PARAMETER_RANGES.relaxIterations.min}
+                  max={DESIGN_PARAMETER_RANGES.relaxIterations.max}
+                  step="1"
+                  value={relaxIterations}
+                  onChange={(e) => setRelaxIterations(parseInt(e.target.value))}
                   className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
                 />
                 <div className="flex justify-between text-xs text-gray-500 mt-1">
-                  <span>Ordered</span>
-                  <span>Random</span>
+                  <span>Raw</span>
+                  <span>Even cells</span>
                 </div>
               </div>
 
@@ -812,7 +1508,71 @@ export default function VoronoiDesigner() {
                 onClick={randomizeSeed}
                 className="w-full bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
               >
-                Randomize
+                Randomize
+              </button>
+
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  onClick={undo}
+                  disabled={history.past.length === 0}
+                  title="Undo (Ctrl+Z)"
+                  className="w-full bg-gray-600 hover:bg-gray-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                >
+                  Undo
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={history.future.length === 0}
+                  title="Redo (Ctrl+Shift+Z)"
+                  className="w-full bg-gray-600 hover:bg-gray-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                >
+                  Redo
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  onClick={saveProject}
+                  className="w-full bg-slate-600 hover:bg-slate-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => projectInputRef.current?.click()}
+                  className="w-full bg-slate-600 hover:bg-slate-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                >
+                  Open
+                </button>
+              </div>
+              <input
+                ref={projectInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) openProject(file);
+                  // Allow opening the same file again
+                  e.target.value = '';
+                }}
+              />
+              {projectError && (
+                <p className="text-sm text-red-600">{projectError}</p>
+              )}
+
+              <button
+                onClick={copyPermalink}
+                className="w-full bg-slate-600 hover:bg-slate-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                {linkCopied ? 'Link copied!' : 'Copy link'}
+              </button>
+
+              <button
+                onClick={() => animateRelaxation(points, relaxIterations)}
+                disabled={points.length < 2 || relaxIterations === 0}
+                className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Relax
               </button>
             </div>
 
@@ -875,6 +1635,75 @@ export default function VoronoiDesigner() {
                     />
                     <span className="ml-2 text-sm text-gray-700">Double Border</span>
                   </label>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Cell Fill
+                    </label>
+                    <select
+                      value={fillMode}
+                      onChange={(e) => setFillMode(e.target.value as FillMode)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+                    >
+                      <option value="none">None</option>
+                      <option value="random">Random</option>
+                      <option value="area">By Cell Area</option>
+                      <option value="distance">By Distance From Center</option>
+                      <option value="graph">No Matching Neighbors</option>
+                    </select>
+                  </div>
+
+                  {fillMode !== 'none' && (
+                    <div className="space-y-2">
+                      <select
+                        value={BUILT_IN_PALETTES.find(preset => preset.colors.join() === palette.join())?.name ?? 'custom'}
+                        onChange={(e) => {
+                          const preset = BUILT_IN_PALETTES.find(candidate => candidate.name === e.target.value);
+                          if (preset) setPalette(preset.colors);
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+                      >
+                        {BUILT_IN_PALETTES.map(preset => (
+                          <option key={preset.name} value={preset.name}>{preset.name}</option>
+                        ))}
+                        <option value="custom">Custom</option>
+                      </select>
+
+                      <div className="flex flex-wrap gap-1">
+                        {palette.map((color, index) => (
+                          <div key={index} className="relative">
+                            <input
+                              type="color"
+                              value={color}
+                              onChange={(e) => setPalette(palette.map((other, i) => i === index ? e.target.value : other))}
+                              className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+                            />
+                            {palette.length > 1 && (
+                              <button
+                                onClick={() => setPalette(palette.filter((_, i) => i !== index))}
+                                className="absolute -top-1 -right-1 w-4 h-4 bg-white border border-gray-300 rounded-full text-[10px] leading-none text-gray-600 hover:bg-gray-100"
+                                aria-label="Remove color"
+                              >
+                                ×
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                        <button
+                          onClick={() => setPalette([...palette, palette[palette.length - 1] ?? '#000000'])}
+                          className="w-8 h-8 rounded border border-dashed border-gray-400 text-gray-600 hover:bg-gray-100"
+                          aria-label="Add color"
+                        >
+                          +
+                        </button>
+                      </div>
+                      {fillMode === 'graph' && palette.length < 6 && (
+                        <p className="text-xs text-gray-500">
+                          Neighbors are guaranteed different colors with 6 or more; fewer usually work but may repeat.
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -900,42 +1729,137 @@ export default function VoronoiDesigner() {
                     <div className="space-y-3 p-3 bg-emerald-50 rounded-lg">
                       <div>
                         <label className="block text-sm font-medium text-emerald-700 mb-2">
-                          Jaggedness: {jaggedness}%
+                          Shape
                         </label>
-                        <input
-                          type="range"
-                          min="0"
-                          max="80"
-                          step="1"
-                          value={jaggedness}
-                          onChange={(e) => setJaggedness(parseInt(e.target.value))}
-                          className="w-full h-2 bg-emerald-200 rounded-lg appearance-none cursor-pointer"
-                        />
+                        <select
+                          value={boundaryShape}
+                          onChange={(e) => setBoundaryShape(e.target.value as BoundaryShape)}
+                          className="w-full px-3 py-2 border border-emerald-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                        >
+                          <option value="circle">Circle</option>
+                          <option value="oval">Oval</option>
+                          <option value="rectangle">Rectangle</option>
+                          <option value="roundedRect">Rounded Rectangle</option>
+                          <option value="hexagon">Hexagon</option>
+                          <option value="polygon">Regular Polygon</option>
+                          {importedOutline && <option value="imported">Imported Outline</option>}
+                        </select>
                       </div>
 
                       <div>
                         <label className="block text-sm font-medium text-emerald-700 mb-2">
-                          Edge Detail: {jaggedPoints}
+                          Import Outline
                         </label>
                         <input
-                          type="range"
-                          min="8"
-                          max="64"
-                          step="4"
-                          value={jaggedPoints}
-                          onChange={(e) => setJaggedPoints(parseInt(e.target.value))}
-                          className="w-full h-2 bg-emerald-200 rounded-lg appearance-none cursor-pointer"
+                          type="file"
+                          accept=".svg,.dxf,image/svg+xml"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) importBoundaryFile(file);
+                          }}
+                          className="w-full text-sm text-gray-700"
                         />
+                        <p className="text-xs text-gray-500 mt-1">
+                          SVG (first closed path or polygon) or DXF (closed polyline or chained lines), at real size.
+                        </p>
+                        {boundaryImportError && (
+                          <p className="text-sm text-red-600 mt-1">{boundaryImportError}</p>
+                        )}
                       </div>
 
-                      <button
-                        onClick={() => setBoundarySeed(Date.now())}
-                        className="w-full bg-emerald-600 hover:bg-emerald-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
-                      >
-                        Randomize Boundary
-                      </button>
+                      {(boundaryShape === 'oval' || boundaryShape === 'rectangle' || boundaryShape === 'roundedRect') && (
+                        <div>
+                          <label className="block text-sm font-medium text-emerald-700 mb-2">
+                            Aspect Ratio: {boundaryAspect.toFixed(2)}:1
+                          </label>
+                          <input
+                            type="range"
+                            min={DESIGN_PARAMETER_RANGES.boundaryAspect.min}
+                            max={DESIGN_PARAMETER_RANGES.boundaryAspect.max}
+                            step="0.05"
+                            value={boundaryAspect}
+                            onChange={(e) => setBoundaryAspect(parseFloat(e.target.value))}
+                            className="w-full h-2 bg-emerald-200 rounded-lg appearance-none cursor-pointer"
+                          />
+                        </div>
+                      )}
+
+                      {boundaryShape === 'roundedRect' && (
+                        <div>
+                          <label className="block text-sm font-medium text-emerald-700 mb-2">
+                            Corner Radius: {cornerRadius}%
+                          </label>
+                          <input
+                            type="range"
+                            min={DESIGN_PARAMETER_RANGES.cornerRadius.min}
+                            max={DESIGN_PARAMETER_RANGES.cornerRadius.max}
+                            step="1"
+                            value={cornerRadius}
+                            onChange={(e) => setCornerRadius(parseInt(e.target.value))}
+                            className="w-full h-2 bg-emerald-200 rounded-lg appearance-none cursor-pointer"
+                          />
+                        </div>
+                      )}
+
+                      {boundaryShape === 'polygon' && (
+                        <div>
+                          <label className="block text-sm font-medium text-emerald-700 mb-2">
+                            Sides: {polygonSides}
+                          </label>
+                          <input
+                            type="range"
+                            min={DESIGN_PARAMETER_RANGES.polygonSides.min}
+                            max={DESIGN_PARAMETER_RANGES.polygonSides.max}
+                            step="1"
+                            value={polygonSides}
+                            onChange={(e) => setPolygonSides(parseInt(e.target.value))}
+                            className="w-full h-2 bg-emerald-200 rounded-lg appearance-none cursor-pointer"
+                          />
+                        </div>
+                      )}
+
+                      {boundaryShape !== 'imported' && (
+                        <>
+                          <div>
+                            <label className="block text-sm font-medium text-emerald-700 mb-2">
+                              Jaggedness: {jaggedness}%
+                            </label>
+                            <input
+                              type="range"
+                              min={DESIGN_PARAMETER_RANGES.jaggedness.min}
+                              max={DESIGN_PARAMETER_RANGES.jaggedness.max}
+                              step="1"
+                              value={jaggedness}
+                              onChange={(e) => setJaggedness(parseInt(e.target.value))}
+                              className="w-full h-2 bg-emerald-200 rounded-lg appearance-none cursor-pointer"
+                            />
+                          </div>
+
+                          <div>
+                            <label className="block text-sm font-medium text-emerald-700 mb-2">
+                              Edge Detail: {jaggedPoints}
+                            </label>
+                            <input
+                              type="range"
+                              min={DESIGN_PARAMETER_RANGES.jaggedPoints.min}
+                              max={DESIGN_PARAMETER_RANGES.jaggedPoints.max}
+                              step="4"
+                              value={jaggedPoints}
+                              onChange={(e) => setJaggedPoints(parseInt(e.target.value))}
+                              className="w-full h-2 bg-emerald-200 rounded-lg appearance-none cursor-pointer"
+                            />
+                          </div>
+
+                          <button
+                            onClick={() => setBoundarySeed(Date.now())}
+                            className="w-full bg-emerald-600 hover:bg-emerald-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                          >
+                            Randomize Boundary
+                          </button>
+                        </>
+                      )}
 
-                      {customCircle && (
+                      {boundary && (
                         <button
                           onClick={clearCustomShape}
                           className="w-full bg-red-600 hover:bg-red-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
@@ -948,6 +1872,416 @@ export default function VoronoiDesigner() {
                 </>
               )}
 
+              {/* Keep-out Zones */}
+              {useCustomShape && (
+                <>
+                  <button
+                    onClick={() => setShowKeepOutSettings(!showKeepOutSettings)}
+                    className="w-full flex items-center justify-between p-3 bg-orange-50 hover:bg-orange-100 rounded-lg transition-colors"
+                  >
+                    <span className="text-sm font-medium text-orange-700">
+                      Keep-out Zones{keepOuts.length > 0 ? ` (${keepOuts.length})` : ''}
+                    </span>
+                    <svg
+                      className={`w-4 h-4 transition-transform ${showKeepOutSettings ? 'rotate-180' : ''}`}
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </button>
+
+                  {showKeepOutSettings && (
+                    <div className="space-y-3 p-3 bg-orange-50 rounded-lg">
+                      <div>
+                        <label className="block text-sm font-medium text-orange-700 mb-2">
+                          Margin (mm)
+                        </label>
+                        <input
+                          type="number"
+                          min={DESIGN_PARAMETER_RANGES.keepOutMargin.min}
+                          max={DESIGN_PARAMETER_RANGES.keepOutMargin.max}
+                          step="0.5"
+                          value={keepOutMargin}
+                          onChange={(e) => setKeepOutMargin(Math.min(DESIGN_PARAMETER_RANGES.keepOutMargin.max, Math.max(0, parseFloat(e.target.value) || 0)))}
+                          className="w-full px-3 py-2 border border-orange-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                        />
+                      </div>
+
+                      {keepOuts.map((keepOut, index) => (
+                        <div key={keepOut.id} className="space-y-2 p-2 bg-white rounded-lg border border-orange-200">
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-orange-700">
+                              {index + 1}. {keepOut.shape === 'circle' ? 'Circle' : keepOut.shape === 'rectangle' ? 'Rectangle' : 'Polygon'}
+                            </span>
+                            <button
+                              onClick={() => setKeepOuts(keepOuts.filter(other => other.id !== keepOut.id))}
+                              className="text-xs text-red-600 hover:text-red-700"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <label className="text-xs text-gray-600">
+                              X (mm)
+                              <input
+                                type="number"
+                                step="1"
+                                value={keepOut.x}
+                                onChange={(e) => updateKeepOut(keepOut.id, { x: parseFloat(e.target.value) || 0 })}
+                                className="w-full px-2 py-1 border border-orange-300 rounded text-sm text-gray-700"
+                              />
+                            </label>
+                            <label className="text-xs text-gray-600">
+                              Y (mm)
+                              <input
+                                type="number"
+                                step="1"
+                                value={keepOut.y}
+                                onChange={(e) => updateKeepOut(keepOut.id, { y: parseFloat(e.target.value) || 0 })}
+                                className="w-full px-2 py-1 border border-orange-300 rounded text-sm text-gray-700"
+                              />
+                            </label>
+                            {keepOut.shape === 'circle' && (
+                              <label className="text-xs text-gray-600 col-span-2">
+                                Diameter (mm)
+                                <input
+                                  type="number"
+                                  min="0.5"
+                                  step="0.5"
+                                  value={keepOut.width}
+                                  onChange={(e) => updateKeepOut(keepOut.id, { width: Math.max(0.5, parseFloat(e.target.value) || 0) })}
+                                  className="w-full px-2 py-1 border border-orange-300 rounded text-sm text-gray-700"
+                                />
+                              </label>
+                            )}
+                            {keepOut.shape === 'rectangle' && (
+                              <>
+                                <label className="text-xs text-gray-600">
+                                  Width (mm)
+                                  <input
+                                    type="number"
+                                    min="0.5"
+                                    step="0.5"
+                                    value={keepOut.width}
+                                    onChange={(e) => updateKeepOut(keepOut.id, { width: Math.max(0.5, parseFloat(e.target.value) || 0) })}
+                                    className="w-full px-2 py-1 border border-orange-300 rounded text-sm text-gray-700"
+                                  />
+                                </label>
+                                <label className="text-xs text-gray-600">
+                                  Height (mm)
+                                  <input
+                                    type="number"
+                                    min="0.5"
+                                    step="0.5"
+                                    value={keepOut.height}
+                                    onChange={(e) => updateKeepOut(keepOut.id, { height: Math.max(0.5, parseFloat(e.target.value) || 0) })}
+                                    className="w-full px-2 py-1 border border-orange-300 rounded text-sm text-gray-700"
+                                  />
+                                </label>
+                              </>
+                            )}
+                          </div>
+                          {keepOut.shape === 'polygon' && (
+                            <p className="text-xs text-gray-500">
+                              {keepOut.width.toFixed(1)} × {keepOut.height.toFixed(1)} mm
+                            </p>
+                          )}
+                        </div>
+                      ))}
+
+                      <div className="grid grid-cols-2 gap-3">
+                        <button
+                          onClick={() => addKeepOut('circle')}
+                          className="w-full bg-orange-600 hover:bg-orange-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                        >
+                          Add Circle
+                        </button>
+                        <button
+                          onClick={() => addKeepOut('rectangle', null, 20, 10)}
+                          className="w-full bg-orange-600 hover:bg-orange-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                        >
+                          Add Rectangle
+                        </button>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-orange-700 mb-2">
+                          Import Polygon
+                        </label>
+                        <input
+                          type="file"
+                          accept=".svg,.dxf,image/svg+xml"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) importKeepOutFile(file);
+                            // Allow importing the same file again
+                            e.target.value = '';
+                          }}
+                          className="w-full text-sm text-gray-700"
+                        />
+                        {keepOutImportError && (
+                          <p className="text-sm text-red-600 mt-1">{keepOutImportError}</p>
+                        )}
+                      </div>
+
+                      <p className="text-xs text-gray-500">
+                        Positions are measured from the boundary center. No cells are placed inside a zone or its margin.
+                      </p>
+                    </div>
+                  )}
+                </>
+              )}
+
+              {/* Manufacturability */}
+              <button
+                onClick={() => setShowManufacturingSettings(!showManufacturingSettings)}
+                className="w-full flex items-center justify-between p-3 bg-rose-50 hover:bg-rose-100 rounded-lg transition-colors"
+              >
+                <span className="text-sm font-medium text-rose-700">
+                  Manufacturability{showManufacturingSettings && manufacturingIssues.length > 0 ? ` (${manufacturingIssues.length})` : ''}
+                </span>
+                <svg
+                  className={`w-4 h-4 transition-transform ${showManufacturingSettings ? 'rotate-180' : ''}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+
+              {showManufacturingSettings && (
+                <div className="space-y-3 p-3 bg-rose-50 rounded-lg">
+                  <div>
+                    <label className="block text-sm font-medium text-rose-700 mb-2">
+                      Material Profile
+                    </label>
+                    <select
+                      value={MATERIAL_PRESETS.find(preset => preset.minWebMM === materialProfile.minWebMM &&
+                        preset.minHoleMM === materialProfile.minHoleMM && preset.kerfMM === materialProfile.kerfMM)?.name ?? 'custom'}
+                      onChange={(e) => {
+                        const preset = MATERIAL_PRESETS.find(candidate => candidate.name === e.target.value);
+                        if (preset) {
+                          setMaterialProfile({ minWebMM: preset.minWebMM, minHoleMM: preset.minHoleMM, kerfMM: preset.kerfMM });
+                        }
+                      }}
+                      className="w-full px-3 py-2 border border-rose-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-rose-500 focus:border-rose-500"
+                    >
+                      {MATERIAL_PRESETS.map(preset => (
+                        <option key={preset.name} value={preset.name}>{preset.name}</option>
+                      ))}
+                      <option value="custom">Custom</option>
+                    </select>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-2">
+                    <label className="text-xs text-gray-600">
+                      Min web (mm)
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={materialProfile.minWebMM}
+                        onChange={(e) => setMaterialProfile({ ...materialProfile, minWebMM: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="w-full px-2 py-1 border border-rose-300 rounded text-sm text-gray-700"
+                      />
+                    </label>
+                    <label className="text-xs text-gray-600">
+                      Min hole (mm)
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={materialProfile.minHoleMM}
+                        onChange={(e) => setMaterialProfile({ ...materialProfile, minHoleMM: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="w-full px-2 py-1 border border-rose-300 rounded text-sm text-gray-700"
+                      />
+                    </label>
+                    <label className="text-xs text-gray-600">
+                      Kerf (mm)
+                      <input
+                        type="number"
+                        min="0"
+                        max={MAX_KERF_MM}
+                        step="0.01"
+                        value={materialProfile.kerfMM}
+                        onChange={(e) => setMaterialProfile({ ...materialProfile, kerfMM: Math.min(MAX_KERF_MM, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                        className="w-full px-2 py-1 border border-rose-300 rounded text-sm text-gray-700"
+                      />
+                    </label>
+                  </div>
+
+                  {manufacturingIssues.length === 0 ? (
+                    <p className="text-sm text-green-700">No problems found. The design can be cut.</p>
+                  ) : (
+                    <>
+                      <ul className="max-h-40 overflow-y-auto space-y-1 text-xs text-rose-800">
+                        {manufacturingIssues.slice(0, 100).map((issue, index) => (
+                          <li key={index}>
+                            {issue.type === 'vanishedCell' && `Cell ${issue.cell + 1} is too small for the border and is not cut`}
+                            {issue.type === 'smallHole' && `Cell ${issue.cell + 1}: hole ${issue.size.toFixed(1)} mm is under ${materialProfile.minHoleMM} mm`}
+                            {issue.type === 'thinWeb' && (issue.cells.length === 2
+                              ? `Web between cells ${issue.cells[0] + 1} and ${issue.cells[1] + 1}: ${issue.width.toFixed(2)} mm`
+                              : `Web between cell ${issue.cells[0] + 1} and the outline: ${issue.width.toFixed(2)} mm`)}
+                          </li>
+                        ))}
+                        {manufacturingIssues.length > 100 && (
+                          <li>…and {manufacturingIssues.length - 100} more</li>
+                        )}
+                      </ul>
+
+                      <div className="space-y-2">
+                        {manufacturingIssues.some(issue => issue.type !== 'thinWeb') && (
+                          <button
+                            onClick={removeTinyCells}
+                            className="w-full bg-rose-600 hover:bg-rose-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                          >
+                            Merge Tiny Cells
+                          </button>
+                        )}
+                        <button
+                          onClick={thinCloseSeeds}
+                          className="w-full bg-rose-600 hover:bg-rose-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                        >
+                          Remove Crowded Seeds
+                        </button>
+                        {manufacturingIssues.some(issue => issue.type === 'thinWeb') && (
+                          getRequiredBorderOffset() <= DESIGN_PARAMETER_RANGES.borderOffset.max ? (
+                            <button
+                              onClick={() => setBorderOffset(getRequiredBorderOffset())}
+                              className="w-full bg-rose-600 hover:bg-rose-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                            >
+                              Widen Border to {formatLength(getRequiredBorderOffset() * getScaleFactor(design))}
+                            </button>
+                          ) : (
+                            <p className="text-xs text-rose-800">
+                              Even the widest border ({formatLength(DESIGN_PARAMETER_RANGES.borderOffset.max * getScaleFactor(design))}) leaves
+                              webs under {materialProfile.minWebMM} mm. Remove crowded seeds or use fewer points.
+                            </p>
+                          )
+                        )}
+                      </div>
+                    </>
+                  )}
+
+                  <p className="text-xs text-gray-500">
+                    {kerfCompensation
+                      ? 'Exports compensate for the kerf, so webs keep their designed width.'
+                      : 'Webs are measured after the kerf removes half its width from each side.'}
+                  </p>
+                </div>
+              )}
+
+              {/* Density Map */}
+              <button
+                onClick={() => setShowDensitySettings(!showDensitySettings)}
+                className="w-full flex items-center justify-between p-3 bg-amber-50 hover:bg-amber-100 rounded-lg transition-colors"
+              >
+                <span className="text-sm font-medium text-amber-700">Density Map</span>
+                <svg
+                  className={`w-4 h-4 transition-transform ${showDensitySettings ? 'rotate-180' : ''}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+
+              {showDensitySettings && (
+                <div className="space-y-3 p-3 bg-amber-50 rounded-lg">
+                  <div>
+                    <label className="block text-sm font-medium text-amber-700 mb-2">
+                      Density Field
+                    </label>
+                    <select
+                      value={densityMode}
+                      onChange={(e) => setDensityMode(e.target.value as DensityMode)}
+                      className="w-full px-3 py-2 border border-amber-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                    >
+                      <option value="uniform">Uniform</option>
+                      <option value="radial">Radial (from center)</option>
+                      <option value="linear">Linear Gradient</option>
+                      <option value="image">Grayscale Image</option>
+                    </select>
+                  </div>
+
+                  {densityMode !== 'uniform' && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-amber-700 mb-2">
+                          Strength: {densityStrength}%
+                        </label>
+                        <input
+                          type="range"
+                          min={DESIGN_PARAMETER_RANGES.densityStrength.min}
+                          max={DESIGN_PARAMETER_RANGES.densityStrength.max}
+                          step="5"
+                          value={densityStrength}
+                          onChange={(e) => setDensityStrength(parseInt(e.target.value))}
+                          className="w-full h-2 bg-amber-200 rounded-lg appearance-none cursor-pointer"
+                        />
+                      </div>
+
+                      {densityMode === 'linear' && (
+                        <div>
+                          <label className="block text-sm font-medium text-amber-700 mb-2">
+                            Gradient Angle: {densityAngle}°
+                          </label>
+                          <input
+                            type="range"
+                            min={DESIGN_PARAMETER_RANGES.densityAngle.min}
+                            max={DESIGN_PARAMETER_RANGES.densityAngle.max}
+                            step="1"
+                            value={densityAngle}
+                            onChange={(e) => setDensityAngle(parseInt(e.target.value))}
+                            className="w-full h-2 bg-amber-200 rounded-lg appearance-none cursor-pointer"
+                          />
+                        </div>
+                      )}
+
+                      {densityMode === 'image' && (
+                        <div>
+                          <label className="block text-sm font-medium text-amber-700 mb-2">
+                            Density Image
+                          </label>
+                          <input
+                            type="file"
+                            accept="image/*"
+                            onChange={(e) => {
+                              const file = e.target.files?.[0];
+                              if (file) loadDensityImage(file);
+                            }}
+                            className="w-full text-sm text-gray-700"
+                          />
+                          <p className="text-xs text-gray-500 mt-1">
+                            {densityImage
+                              ? `${densityImage.width}×${densityImage.height} map loaded. Dark areas get smaller cells.`
+                              : 'Upload an image. Dark areas get smaller cells.'}
+                          </p>
+                        </div>
+                      )}
+
+                      <label className="flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={densityInvert}
+                          onChange={(e) => setDensityInvert(e.target.checked)}
+                          className="rounded border-gray-300 text-amber-600 focus:ring-amber-500"
+                        />
+                        <span className="ml-2 text-sm text-gray-700">Invert</span>
+                      </label>
+
+                      <p className="text-xs text-gray-500">
+                        Shapes random placement, Poisson-disk spacing and relaxation
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+
               {/* Advanced Settings */}
               <button
                 onClick={() => setShowAdvancedSettings(!showAdvancedSettings)}
@@ -984,12 +2318,12 @@ export default function VoronoiDesigner() {
                   {showDoubleBorder && (
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Border Offset: {borderOffset}px
+                        Border Offset: {formatLength(borderOffset * getScaleFactor(design))}
                       </label>
                       <input
                         type="range"
-                        min="2"
-                        max="20"
+                        min={DESIGN_PARAMETER_RANGES.borderOffset.min}
+                        max={DESIGN_PARAMETER_RANGES.borderOffset.max}
                         step="1"
                         value={borderOffset}
                         onChange={(e) => setBorderOffset(parseInt(e.target.value))}
@@ -997,6 +2331,46 @@ export default function VoronoiDesigner() {
                       />
                     </div>
                   )}
+
+                  {showDoubleBorder && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Border Corners
+                      </label>
+                      <select
+                        value={borderJoin}
+                        onChange={(e) => setBorderJoin(e.target.value as BorderJoin)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="miter">Miter</option>
+                        <option value="round">Round</option>
+                        <option value="bevel">Bevel</option>
+                      </select>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Applies where the border turns inward, such as along the boundary edge
+                      </p>
+                    </div>
+                  )}
+
+                  {showDoubleBorder && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Corner Fillet: {formatLength(filletRadius * getScaleFactor(design))}
+                      </label>
+                      <input
+                        type="range"
+                        min={DESIGN_PARAMETER_RANGES.filletRadius.min}
+                        max={DESIGN_PARAMETER_RANGES.filletRadius.max}
+                        step="1"
+                        value={filletRadius}
+                        onChange={(e) => setFilletRadius(parseInt(e.target.value))}
+                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Rounds every inset cell corner, limited to what each corner can fit
+                      </p>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -1005,7 +2379,7 @@ export default function VoronoiDesigner() {
                 onClick={() => setShowExportOptions(!showExportOptions)}
                 className="w-full flex items-center justify-between p-3 bg-purple-50 hover:bg-purple-100 rounded-lg transition-colors"
               >
-                <span className="text-sm font-medium text-purple-700">Export to DXF</span>
+                <span className="text-sm font-medium text-purple-700">Export</span>
                 <svg
                   className={`w-4 h-4 transition-transform ${showExportOptions ? 'rotate-180' : ''}`}
                   fill="none"
@@ -1018,23 +2392,61 @@ export default function VoronoiDesigner() {
 
               {showExportOptions && (
                 <div className="space-y-3 p-3 bg-purple-50 rounded-lg">
-                  {useCustomShape && customCircle && (
-                    <div>
-                      <label className="block text-sm font-medium text-purple-700 mb-2">
-                        Circle Diameter (mm)
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-sm font-medium text-purple-700">
+                        {boundary
+                          ? boundary.shape === 'circle' ? 'Circle Diameter' : 'Boundary Width'
+                          : 'Document Width'} ({documentUnit})
                       </label>
-                      <input
-                        type="number"
-                        min="10"
-                        max="500"
-                        step="5"
-                        value={circleDiameterMM}
-                        onChange={(e) => setCircleDiameterMM(parseInt(e.target.value) || 100)}
-                        className="w-full px-3 py-2 border border-purple-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
-                        placeholder="Enter diameter in mm"
-                      />
+                      <div className="flex rounded-lg border border-purple-300 overflow-hidden text-xs">
+                        {(['mm', 'in'] as DocumentUnit[]).map(unit => (
+                          <button
+                            key={unit}
+                            onClick={() => setDocumentUnit(unit)}
+                            className={`px-2 py-1 transition-colors ${documentUnit === unit ? 'bg-purple-600 text-white' : 'bg-white text-gray-700 hover:bg-purple-100'}`}
+                          >
+                            {unit}
+                          </button>
+                        ))}
+                      </div>
                     </div>
-                  )}
+                    <input
+                      type="number"
+                      min={DESIGN_PARAMETER_RANGES.physicalWidthMM.min / DOCUMENT_UNITS[documentUnit].mm}
+                      max={DESIGN_PARAMETER_RANGES.physicalWidthMM.max / DOCUMENT_UNITS[documentUnit].mm}
+                      step={documentUnit === 'mm' ? 5 : 0.25}
+                      value={Number((physicalWidthMM / DOCUMENT_UNITS[documentUnit].mm).toFixed(DOCUMENT_UNITS[documentUnit].decimals))}
+                      onChange={(e) => setPhysicalWidthMM((parseFloat(e.target.value) || 100 / DOCUMENT_UNITS[documentUnit].mm) * DOCUMENT_UNITS[documentUnit].mm)}
+                      onBlur={() => setPhysicalWidthMM(Math.min(DESIGN_PARAMETER_RANGES.physicalWidthMM.max, Math.max(DESIGN_PARAMETER_RANGES.physicalWidthMM.min, physicalWidthMM)))}
+                      className="w-full px-3 py-2 border border-purple-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                      placeholder={`Enter width in ${documentUnit}`}
+                    />
+                    {!useCustomShape && (
+                      <>
+                        <label className="block text-sm font-medium text-purple-700 mt-2 mb-2">
+                          Document Height ({documentUnit})
+                        </label>
+                        <input
+                          type="number"
+                          min={physicalWidthMM / DESIGN_PARAMETER_RANGES.documentAspect.max / DOCUMENT_UNITS[documentUnit].mm}
+                          max={physicalWidthMM / DESIGN_PARAMETER_RANGES.documentAspect.min / DOCUMENT_UNITS[documentUnit].mm}
+                          step={documentUnit === 'mm' ? 5 : 0.25}
+                          value={Number((physicalWidthMM / documentAspect / DOCUMENT_UNITS[documentUnit].mm).toFixed(DOCUMENT_UNITS[documentUnit].decimals))}
+                          onChange={(e) => {
+                            const heightMM = parseFloat(e.target.value) * DOCUMENT_UNITS[documentUnit].mm;
+                            if (heightMM > 0) setDocumentAspect(physicalWidthMM / heightMM);
+                          }}
+                          onBlur={() => setDocumentAspect(Math.min(DESIGN_PARAMETER_RANGES.documentAspect.max, Math.max(DESIGN_PARAMETER_RANGES.documentAspect.min, documentAspect)))}
+                          className="w-full px-3 py-2 border border-purple-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                          placeholder={`Enter height in ${documentUnit}`}
+                        />
+                      </>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">
+                      Document: {formatLength(designSize.width * getScaleFactor(design))} × {formatLength(designSize.height * getScaleFactor(design))}
+                    </p>
+                  </div>
 
                   <div className="space-y-2">
                     <label className="flex items-center">
@@ -1086,25 +2498,278 @@ export default function VoronoiDesigner() {
                       />
                       <span className="ml-2 text-sm text-gray-700">Boundary</span>
                     </label>
+
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={exportKeepOuts}
+                        onChange={(e) => setExportKeepOuts(e.target.checked)}
+                        className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">Keep-out Zones</span>
+                    </label>
+
+                    {fillMode !== 'none' && (
+                      <label className="flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={exportFills}
+                          onChange={(e) => setExportFills(e.target.checked)}
+                          className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+                        />
+                        <span className="ml-2 text-sm text-gray-700">Cell Fills (SVG only)</span>
+                      </label>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={kerfCompensation}
+                        onChange={(e) => setKerfCompensation(e.target.checked)}
+                        className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">Kerf Compensation</span>
+                    </label>
+                    {kerfCompensation && (
+                      <div className="mt-2">
+                        <label className="block text-sm font-medium text-purple-700 mb-2">
+                          Kerf Width (mm)
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          max={MAX_KERF_MM}
+                          step="0.01"
+                          value={materialProfile.kerfMM}
+                          onChange={(e) => setMaterialProfile({ ...materialProfile, kerfMM: Math.min(MAX_KERF_MM, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                          className="w-full px-3 py-2 border border-purple-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Cell and keep-out cutouts shrink and the boundary grows by half the kerf. The dashed purple preview shows the compensated paths.
+                        </p>
+                      </div>
+                    )}
                   </div>
 
                   <button
                     onClick={exportToDXF}
-                    disabled={points.length === 0 || (!exportVoronoi && !exportDelaunay && !exportPoints && !exportDoubleBorder && !exportBoundary)}
+                    disabled={points.length === 0 || (!exportVoronoi && !exportDelaunay && !exportPoints && !exportDoubleBorder && !exportBoundary && !exportKeepOuts)}
                     className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
                   >
                     Download DXF
                   </button>
+
+                  <button
+                    onClick={exportToSVG}
+                    disabled={points.length === 0 || (!exportVoronoi && !exportDelaunay && !exportPoints && !exportDoubleBorder && !exportBoundary && !exportKeepOuts && !(exportFills && fillMode !== 'none'))}
+                    className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                  >
+                    Download SVG
+                  </button>
+
+                  <div className="space-y-2 border-t border-purple-200 pt-3">
+                    <label className="block text-sm font-medium text-purple-700">
+                      G-code Machine
+                    </label>
+                    <select
+                      value={gcodeSettings.tool}
+                      onChange={(e) => setGcodeSettings({ ...gcodeSettings, tool: e.target.value as GCodeSettings['tool'] })}
+                      className="w-full px-3 py-2 border border-purple-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                    >
+                      <option value="pen">Pen Plotter</option>
+                      <option value="router">CNC Router</option>
+                    </select>
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="text-xs text-gray-600">
+                        Feed (mm/min)
+                        <input
+                          type="number"
+                          min="1"
+                          step="100"
+                          value={gcodeSettings.feedRate}
+                          onChange={(e) => setGcodeSettings({ ...gcodeSettings, feedRate: Math.max(1, parseFloat(e.target.value) || 0) })}
+                          className="w-full px-2 py-1 border border-purple-300 rounded text-sm text-gray-700"
+                        />
+                      </label>
+                      <label className="text-xs text-gray-600">
+                        Travel (mm/min)
+                        <input
+                          type="number"
+                          min="1"
+                          step="100"
+                          value={gcodeSettings.travelRate}
+                          onChange={(e) => setGcodeSettings({ ...gcodeSettings, travelRate: Math.max(1, parseFloat(e.target.value) || 0) })}
+                          className="w-full px-2 py-1 border border-purple-300 rounded text-sm text-gray-700"
+                        />
+                      </label>
+                      {gcodeSettings.tool === 'pen' ? (
+                        <>
+                          <label className="text-xs text-gray-600">
+                            Pen Up
+                            <input
+                              type="text"
+                              value={gcodeSettings.penUp}
+                              onChange={(e) => setGcodeSettings({ ...gcodeSettings, penUp: e.target.value })}
+                              className="w-full px-2 py-1 border border-purple-300 rounded text-sm text-gray-700 font-mono"
+                            />
+                          </label>
+                          <label className="text-xs text-gray-600">
+                            Pen Down
+                            <input
+                              type="text"
+                              value={gcodeSettings.penDown}
+                              onChange={(e) => setGcodeSettings({ ...gcodeSettings, penDown: e.target.value })}
+                              className="w-full px-2 py-1 border border-purple-300 rounded text-sm text-gray-700 font-mono"
+                            />
+                          </label>
+                        </>
+                      ) : (
+                        <>
+                          <label className="text-xs text-gray-600">
+                            Safe Z (mm)
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.5"
+                              value={gcodeSettings.safeZ}
+                              onChange={(e) => setGcodeSettings({ ...gcodeSettings, safeZ: Math.max(0, parseFloat(e.target.value) || 0) })}
+                              className="w-full px-2 py-1 border border-purple-300 rounded text-sm text-gray-700"
+                            />
+                          </label>
+                          <label className="text-xs text-gray-600">
+                            Depth (mm)
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.1"
+                              value={gcodeSettings.depth}
+                              onChange={(e) => setGcodeSettings({ ...gcodeSettings, depth: Math.max(0, parseFloat(e.target.value) || 0) })}
+                              className="w-full px-2 py-1 border border-purple-300 rounded text-sm text-gray-700"
+                            />
+                          </label>
+                          <label className="text-xs text-gray-600">
+                            Tool Diameter (mm)
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.1"
+                              value={gcodeSettings.toolDiameter}
+                              onChange={(e) => setGcodeSettings({ ...gcodeSettings, toolDiameter: Math.max(0, parseFloat(e.target.value) || 0) })}
+                              className="w-full px-2 py-1 border border-purple-300 rounded text-sm text-gray-700"
+                            />
+                          </label>
+                        </>
+                      )}
+                      <label className="text-xs text-gray-600">
+                        Passes
+                        <input
+                          type="number"
+                          min="1"
+                          step="1"
+                          value={gcodeSettings.passes}
+                          onChange={(e) => setGcodeSettings({ ...gcodeSettings, passes: Math.max(1, parseInt(e.target.value) || 0) })}
+                          className="w-full px-2 py-1 border border-purple-300 rounded text-sm text-gray-700"
+                        />
+                      </label>
+                      <label className="text-xs text-gray-600">
+                        Start X (mm)
+                        <input
+                          type="number"
+                          step="1"
+                          value={gcodeSettings.startX}
+                          onChange={(e) => setGcodeSettings({ ...gcodeSettings, startX: parseFloat(e.target.value) || 0 })}
+                          className="w-full px-2 py-1 border border-purple-300 rounded text-sm text-gray-700"
+                        />
+                      </label>
+                      <label className="text-xs text-gray-600">
+                        Start Y (mm)
+                        <input
+                          type="number"
+                          step="1"
+                          value={gcodeSettings.startY}
+                          onChange={(e) => setGcodeSettings({ ...gcodeSettings, startY: parseFloat(e.target.value) || 0 })}
+                          className="w-full px-2 py-1 border border-purple-300 rounded text-sm text-gray-700"
+                        />
+                      </label>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {gcodeSettings.tool === 'router'
+                        ? 'Cutouts are cut inside and the boundary outside the line by the tool radius, stepping down each pass.'
+                        : 'Each pass redraws the path with the pen commands around it.'}
+                    </p>
+
+                    <button
+                      onClick={exportToGCode}
+                      disabled={points.length === 0 || (!exportVoronoi && !exportDelaunay && !exportPoints && !exportDoubleBorder && !exportBoundary && !exportKeepOuts)}
+                      className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                    >
+                      Download G-code
+                    </button>
+                  </div>
+
+                  <div className="space-y-2 border-t border-purple-200 pt-3">
+                    <label className="block text-sm font-medium text-purple-700">
+                      PNG Resolution: {pngDPI} DPI
+                    </label>
+                    <input
+                      type="range"
+                      min="72"
+                      max="1200"
+                      step="12"
+                      value={pngDPI}
+                      onChange={(e) => setPngDPI(parseInt(e.target.value))}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                    />
+                    <p className="text-xs text-gray-500">
+                      {getPngSize().width} × {getPngSize().height}px, using the display options and line width
+                    </p>
+
+                    <div className="flex items-center gap-3">
+                      <label className="flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={pngTransparent}
+                          onChange={(e) => setPngTransparent(e.target.checked)}
+                          className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                        />
+                        <span className="ml-2 text-sm text-gray-700">Transparent</span>
+                      </label>
+                      {!pngTransparent && (
+                        <input
+                          type="color"
+                          value={pngBackground}
+                          onChange={(e) => setPngBackground(e.target.value)}
+                          className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+                          aria-label="Background color"
+                        />
+                      )}
+                    </div>
+
+                    <button
+                      onClick={exportToPNG}
+                      disabled={points.length === 0}
+                      className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                    >
+                      Download PNG
+                    </button>
+                    {pngError && (
+                      <p className="text-sm text-red-600">{pngError}</p>
+                    )}
+                  </div>
                 </div>
               )}
             </div>
 
             {/* Status Info */}
             <div className="text-xs text-gray-500 space-y-1 border-t pt-4">
-              <p>• Click canvas to add points manually</p>
+              <p>• Click canvas to add points manually, or switch to Edit to move and delete them</p>
+              <p>• Relax evens out the current points, including ones you added</p>
               <p>• {points.length} points currently placed</p>
-              {customCircle && (
-                <p>• Boundary: {Math.round(customCircle.baseRadius * 2)}px diameter</p>
+              {boundary && (
+                <p>• Boundary: {Math.round(boundary.width)} × {Math.round(boundary.height)}px</p>
               )}
             </div>
           </div>
@@ -1113,8 +2778,29 @@ export default function VoronoiDesigner() {
           <div className="lg:col-span-3 bg-white rounded-lg shadow-md p-6">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-xl font-semibold text-gray-800">Pattern Preview</h2>
-              <div className="text-sm text-gray-500">
-                Click to add points
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-gray-500">
+                  {editMode
+                    ? 'Drag to move, shift-click or box-select, Delete to remove, arrows to nudge'
+                    : 'Click to add points'}
+                </span>
+                <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+                  <button
+                    onClick={() => {
+                      setEditMode(false);
+                      setSelectedPoints(new Set());
+                    }}
+                    className={`px-3 py-1 transition-colors ${!editMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                  >
+                    Add
+                  </button>
+                  <button
+                    onClick={() => setEditMode(true)}
+                    className={`px-3 py-1 transition-colors ${editMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                  >
+                    Edit
+                  </button>
+                </div>
               </div>
             </div>
 
@@ -1127,7 +2813,11 @@ export default function VoronoiDesigner() {
                 width={canvasSize.width}
                 height={canvasSize.height}
                 onClick={handleCanvasClick}
-                className="bg-white w-full block cursor-crosshair"
+                onMouseDown={handleCanvasMouseDown}
+                onMouseMove={handleCanvasMouseMove}
+                onMouseUp={handleCanvasMouseUp}
+                onMouseLeave={handleCanvasMouseUp}
+                className={`bg-white w-full block ${editMode ? 'cursor-default' : 'cursor-crosshair'}`}
               />
             </div>
           </div>
@@ -0,0 +1,134 @@
+// Batch generator: writes one DXF and/or SVG file per seed, with the same design parameters as the designer.
+//
+//   pnpm generate --seeds 1-50 --diameter 95 --out coasters
+//   pnpm generate --preset coaster.json --seeds 3,7,12 --format dxf,svg
+//
+// Run with --help for all options.
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { MAX_KERF_MM, checkDesignParameter, checkRange, generateDesign } from '../lib/pattern';
+import { DOCUMENT_UNITS, VectorExportOptions, createDXF, createSVG } from '../lib/export';
+import {
+  LAYER_NAMES,
+  MAX_SEEDS,
+  PARAMETER_FLAGS,
+  checkDesignParameters,
+  getDefaultSettings,
+  parseFormats,
+  parseLayers,
+  parseNumber,
+  parseSeeds,
+  parseUnit,
+  readPreset
+} from './settings';
+
+const USAGE = `Usage: pnpm generate --seeds <seeds> [options]
+
+Writes <name>-seed-<seed>.<format> into the output directory for every seed.
+
+Options:
+  --seeds <seeds>          Seeds to generate: a range (1-50), a list (3,7,12) or both (1-10,20),
+                           up to ${MAX_SEEDS}
+  --preset <file>          Project saved by the designer (.voronoi.json), or a JSON preset
+  --out <dir>              Output directory (default: current directory)
+  --name <prefix>          File name prefix (default: voronoi-pattern)
+  --format <formats>       dxf, svg or dxf,svg (default: dxf)
+  --layers <layers>        Comma-separated: ${Object.keys(LAYER_NAMES).join(', ')}
+  --unit <unit>            Document unit: ${Object.keys(DOCUMENT_UNITS).join(' or ')} (default: mm)
+  --kerf <0-2>             Compensate the cuts for this kerf width in millimeters
+  --points <10-200>        Number of points
+  --randomness <0-100>     0 = grid-like, 100 = fully random
+  --relax <0-50>           Lloyd relaxation steps
+  --jaggedness <0-80>      0 = smooth outline, 80 = very jagged
+  --edge-detail <8-64>     Number of points around the outline
+  --border-offset <2-20>   Width of the double border
+  --fillet <0-20>          Radius of the inset cell corners
+  --diameter <10-2000>     Boundary width in millimeters
+  --boundary-seed <n>      Seed of the jagged outline, the same for every file
+  -h, --help               Show this help
+
+A saved project gives the design parameters, export layers, unit and kerf;
+its seed and points are replaced by every seed of the batch. A JSON preset is
+an object of design parameters, named as in DesignParameters in lib/pattern.ts,
+for example { "numPoints": 40, "physicalWidthMM": 95, "boundaryShape": "hexagon" },
+with optional "layers", "unit", "kerfMM" and "formats". Settings a preset leaves
+out keep the designer's defaults. Options given on the command line override
+the preset.`;
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      seeds: { type: 'string' },
+      preset: { type: 'string' },
+      out: { type: 'string', default: '.' },
+      name: { type: 'string', default: 'voronoi-pattern' },
+      format: { type: 'string' },
+      layers: { type: 'string' },
+      unit: { type: 'string' },
+      kerf: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      ...Object.fromEntries(Object.keys(PARAMETER_FLAGS).map(flag => [flag, { type: 'string' as const }]))
+    }
+  });
+  const options = values as Record<string, string | boolean | undefined>;
+
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (typeof options.seeds !== 'string') {
+    throw new Error(`--seeds is required.\n\n${USAGE}`);
+  }
+
+  const seeds = parseSeeds(options.seeds);
+  const settings = typeof options.preset === 'string' ? readPreset(options.preset) : getDefaultSettings();
+
+  // Command-line options override the preset
+  for (const [flag, parameter] of Object.entries(PARAMETER_FLAGS)) {
+    const text = options[flag];
+    if (typeof text === 'string') {
+      settings.parameters = { ...settings.parameters, [parameter]: checkDesignParameter(`--${flag}`, parameter, parseNumber(flag, text)) };
+    }
+  }
+  const listOption = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+  if (typeof options.layers === 'string') settings.layers = parseLayers(listOption(options.layers));
+  if (typeof options.format === 'string') settings.formats = parseFormats(listOption(options.format));
+  if (typeof options.unit === 'string') settings.unit = parseUnit(options.unit);
+  if (typeof options.kerf === 'string') {
+    settings.kerfMM = checkRange('--kerf', parseNumber('kerf', options.kerf), { min: 0, max: MAX_KERF_MM });
+  }
+  checkDesignParameters(settings.parameters);
+
+  const outputDirectory = String(options.out);
+  const prefix = String(options.name);
+  mkdirSync(outputDirectory, { recursive: true });
+
+  const exportOptions: VectorExportOptions = {
+    layers: settings.layers,
+    unit: settings.unit,
+    kerfMM: settings.kerfMM,
+    fillMode: 'none',
+    palette: []
+  };
+
+  for (const seed of seeds) {
+    const design = generateDesign({ ...settings.parameters, seed });
+    if (design.points.length === 0) {
+      throw new Error(`Seed ${seed} gives an empty design: no points fit inside the boundary.`);
+    }
+    for (const format of settings.formats) {
+      const file = join(outputDirectory, `${prefix}-seed-${seed}.${format}`);
+      writeFileSync(file, format === 'dxf' ? createDXF(design, exportOptions) : createSVG(design, exportOptions));
+      console.log(file);
+    }
+  }
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
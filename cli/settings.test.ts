@@ -0,0 +1,158 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_DESIGN_PARAMETERS } from '../lib/pattern';
+import { DEFAULT_EXPORT_LAYERS, DEFAULT_GCODE_SETTINGS } from '../lib/export';
+import { PROJECT_FORMAT, PROJECT_VERSION, ProjectFile } from '../lib/project';
+import { MAX_SEEDS, parsePreset, parseSeeds } from './settings';
+
+// Helper function to build a project as the designer saves it
+const createProject = (): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  canvas: { width: 800, height: 600 },
+  points: [{ x: 400, y: 300 }],
+  boundary: {
+    enabled: true,
+    shape: 'hexagon',
+    aspect: 1.5,
+    cornerRadius: 15,
+    sides: 5,
+    imported: null,
+    vertices: [],
+    seed: 9,
+    jaggedness: 0,
+    jaggedPoints: 32
+  },
+  generation: {
+    numPoints: 60,
+    seed: 1234,
+    randomness: 40,
+    relaxIterations: 2,
+    distribution: 'blend',
+    minSpacingMM: 15,
+    fillToSaturation: false,
+    density: { mode: 'uniform', strength: 70, angle: 0, invert: false, image: null }
+  },
+  keepOuts: { margin: 0, zones: [] },
+  border: { offset: 6, join: 'round', filletRadius: 2 },
+  display: {
+    showPoints: false,
+    showVoronoi: true,
+    showDelaunay: false,
+    showDoubleBorder: true,
+    strokeWidth: 1,
+    fill: { mode: 'none', palette: [] }
+  },
+  export: {
+    voronoi: true,
+    delaunay: false,
+    points: false,
+    doubleBorder: false,
+    boundary: true,
+    keepOuts: true,
+    kerfCompensation: true,
+    fills: true,
+    png: { dpi: 300, transparent: false, background: '#ffffff' },
+    gcode: DEFAULT_GCODE_SETTINGS
+  },
+  physical: { widthMM: 95, aspect: 4 / 3, unit: 'in' },
+  material: { minWebMM: 2, minHoleMM: 3, kerfMM: 0.2 }
+});
+
+describe('parseSeeds', () => {
+  it('expands ranges and lists in order, without repeats', () => {
+    assert.deepEqual(parseSeeds('3,1-4, 2,10-11'), [3, 1, 2, 4, 10, 11]);
+  });
+
+  it('rejects malformed and backwards seeds', () => {
+    assert.throws(() => parseSeeds('1-x'), /not a seed/);
+    assert.throws(() => parseSeeds('-3'), /not a seed/);
+    assert.throws(() => parseSeeds('5-2'), /runs backwards/);
+    assert.throws(() => parseSeeds(' , '), /No seeds/);
+  });
+
+  it('caps the number of seeds without expanding huge ranges', () => {
+    assert.equal(parseSeeds(`1-${MAX_SEEDS}`).length, MAX_SEEDS);
+    assert.throws(() => parseSeeds('1-100000000'), /more than/);
+    assert.throws(() => parseSeeds(`1-${MAX_SEEDS},${MAX_SEEDS + 1}`), /More than/);
+  });
+});
+
+describe('parsePreset', () => {
+  it('applies design parameters and export settings on top of the defaults', () => {
+    const settings = parsePreset(JSON.stringify({
+      numPoints: 40,
+      boundaryShape: 'oval',
+      layers: ['voronoi', 'keep-outs'],
+      unit: 'in',
+      kerfMM: 0.15,
+      formats: ['svg']
+    }));
+    assert.deepEqual(settings.parameters, { ...DEFAULT_DESIGN_PARAMETERS, numPoints: 40, boundaryShape: 'oval' });
+    assert.deepEqual(settings.layers, {
+      voronoi: true,
+      delaunay: false,
+      points: false,
+      doubleBorder: false,
+      boundary: false,
+      keepOuts: true
+    });
+    assert.equal(settings.unit, 'in');
+    assert.equal(settings.kerfMM, 0.15);
+    assert.deepEqual(settings.formats, ['svg']);
+  });
+
+  it('keeps the defaults for an empty preset', () => {
+    const settings = parsePreset('{}');
+    assert.deepEqual(settings.parameters, DEFAULT_DESIGN_PARAMETERS);
+    assert.deepEqual(settings.layers, DEFAULT_EXPORT_LAYERS);
+  });
+
+  it('reads a project saved by the designer', () => {
+    const settings = parsePreset(JSON.stringify(createProject()));
+    assert.equal(settings.parameters.numPoints, 60);
+    assert.equal(settings.parameters.boundaryShape, 'hexagon');
+    assert.equal(settings.parameters.borderJoin, 'round');
+    assert.equal(settings.parameters.physicalWidthMM, 95);
+    assert.equal(settings.layers.voronoi, true);
+    assert.equal(settings.layers.doubleBorder, false);
+    assert.equal(settings.unit, 'in');
+    assert.equal(settings.kerfMM, 0.2);
+  });
+
+  it('upgrades projects saved by older versions', () => {
+    const project: Record<string, unknown> = { ...createProject(), version: 10 };
+    project.export = { ...(project.export as Record<string, unknown>), gcode: undefined };
+    assert.equal(parsePreset(JSON.stringify(project)).parameters.numPoints, 60);
+  });
+
+  it('rejects unknown settings and settings the batch sets itself', () => {
+    assert.throws(() => parsePreset('{ "points": 40 }'), /Unknown preset setting "points"/);
+    assert.throws(() => parsePreset('{ "seed": 3 }'), /"seed" can't be set/);
+    assert.throws(() => parsePreset('{ "densityImage": null }'), /"densityImage" can't be set/);
+    assert.throws(() => parsePreset('[1, 2]'), /JSON object/);
+    assert.throws(() => parsePreset('{ nope'), /not valid JSON/);
+  });
+
+  it('rejects values outside the designer\'s ranges and options', () => {
+    assert.throws(() => parsePreset('{ "numPoints": 5 }'), /between 10 and 200/);
+    assert.throws(() => parsePreset('{ "jaggedPoints": 0 }'), /between 8 and 64/);
+    assert.throws(() => parsePreset('{ "relaxIterations": 1.5 }'), /whole number/);
+    assert.throws(() => parsePreset('{ "physicalWidthMM": "95" }'), /must be a number/);
+    assert.throws(() => parsePreset('{ "boundaryShape": "star" }'), /must be one of/);
+    assert.throws(() => parsePreset('{ "useCustomShape": "yes" }'), /must be a boolean/);
+    assert.throws(() => parsePreset('{ "kerfMM": 3 }'), /between 0 and 2/);
+    assert.throws(() => parsePreset('{ "layers": ["outline"] }'), /Unknown layer/);
+    assert.throws(() => parsePreset('{ "formats": ["pdf"] }'), /Unknown format/);
+    assert.throws(
+      () => parsePreset('{ "keepOuts": [{ "shape": "circle", "x": 0, "y": 0, "width": 0, "height": 0 }] }'),
+      /width must be a positive number/
+    );
+  });
+
+  it('checks the values of saved projects too', () => {
+    const project = createProject();
+    project.physical.widthMM = 0;
+    assert.throws(() => parsePreset(JSON.stringify(project)), /between 10 and 2000/);
+  });
+});
@@ -0,0 +1,218 @@
+// Settings of the batch generator: parsing and checking seeds, presets and command-line values.
+
+import { readFileSync } from 'node:fs';
+import { DEFAULT_DESIGN_PARAMETERS, DesignParameters, MAX_KERF_MM, checkDesignParameter, checkRange } from '../lib/pattern';
+import { DEFAULT_EXPORT_LAYERS, DOCUMENT_UNITS, DocumentUnit, ExportLayers } from '../lib/export';
+import { PROJECT_FORMAT, ProjectFile, getProjectDesignParameters, parseProjectFile } from '../lib/project';
+
+export type OutputFormat = 'dxf' | 'svg';
+
+// Everything a batch is generated from, as read from the preset file and the command line
+export interface BatchSettings {
+  parameters: DesignParameters;
+  layers: ExportLayers;
+  unit: DocumentUnit;
+  kerfMM: number;
+  formats: OutputFormat[];
+}
+
+// Layer names used on the command line and in presets
+export const LAYER_NAMES: Record<string, keyof ExportLayers> = {
+  voronoi: 'voronoi',
+  delaunay: 'delaunay',
+  points: 'points',
+  'double-border': 'doubleBorder',
+  boundary: 'boundary',
+  'keep-outs': 'keepOuts'
+};
+
+// Command-line flags that set a numeric design parameter
+export const PARAMETER_FLAGS: Record<string, keyof DesignParameters> = {
+  points: 'numPoints',
+  randomness: 'randomness',
+  relax: 'relaxIterations',
+  jaggedness: 'jaggedness',
+  'edge-detail': 'jaggedPoints',
+  'border-offset': 'borderOffset',
+  fillet: 'filletRadius',
+  diameter: 'physicalWidthMM',
+  'boundary-seed': 'boundarySeed'
+};
+
+// Most files one run may write per format
+export const MAX_SEEDS = 10000;
+
+// Helper function to parse a comma-separated list of seeds and seed ranges
+export const parseSeeds = (text: string): number[] => {
+  // A set keeps the first occurrence of every seed in order
+  const seeds = new Set<number>();
+  for (const part of text.split(',').map(item => item.trim()).filter(Boolean)) {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`"${part}" is not a seed or a seed range.`);
+    }
+    const first = Number(match[1]);
+    const last = match[2] === undefined ? first : Number(match[2]);
+    if (!Number.isSafeInteger(first) || !Number.isSafeInteger(last)) {
+      throw new Error(`The seed "${part}" is too large.`);
+    }
+    if (last < first) {
+      throw new Error(`The seed range "${part}" runs backwards.`);
+    }
+    if (last - first + 1 > MAX_SEEDS) {
+      throw new Error(`The seed range "${part}" has more than ${MAX_SEEDS} seeds.`);
+    }
+    for (let seed = first; seed <= last; seed++) {
+      seeds.add(seed);
+      if (seeds.size > MAX_SEEDS) {
+        throw new Error(`More than ${MAX_SEEDS} seeds were given.`);
+      }
+    }
+  }
+  if (seeds.size === 0) {
+    throw new Error('No seeds were given.');
+  }
+  return [...seeds];
+};
+
+// Helper function to turn layer names into the layer selection
+export const parseLayers = (names: string[]): ExportLayers => {
+  const layers: ExportLayers = {
+    voronoi: false,
+    delaunay: false,
+    points: false,
+    doubleBorder: false,
+    boundary: false,
+    keepOuts: false
+  };
+  for (const name of names) {
+    if (!(name in LAYER_NAMES)) {
+      throw new Error(`Unknown layer "${name}". Use ${Object.keys(LAYER_NAMES).join(', ')}.`);
+    }
+    layers[LAYER_NAMES[name]] = true;
+  }
+  if (names.length === 0) {
+    throw new Error('No layer was given.');
+  }
+  return layers;
+};
+
+// Helper function to check output formats
+export const parseFormats = (names: string[]): OutputFormat[] => {
+  const formats = names.map(name => {
+    if (name !== 'dxf' && name !== 'svg') {
+      throw new Error(`Unknown format "${name}". Use dxf or svg.`);
+    }
+    return name as OutputFormat;
+  });
+  if (formats.length === 0) {
+    throw new Error('No output format was given.');
+  }
+  return formats;
+};
+
+// Helper function to check a document unit
+export const parseUnit = (unit: unknown): DocumentUnit => {
+  if (typeof unit !== 'string' || !(unit in DOCUMENT_UNITS)) {
+    throw new Error(`Unknown unit "${unit}". Use ${Object.keys(DOCUMENT_UNITS).join(' or ')}.`);
+  }
+  return unit as DocumentUnit;
+};
+
+// Helper function to parse a number from the command line
+export const parseNumber = (flag: string, text: string): number => {
+  const value = Number(text);
+  if (text.trim() === '' || !Number.isFinite(value)) {
+    throw new Error(`--${flag} needs a number, not "${text}".`);
+  }
+  return value;
+};
+
+// Helper function to check that the parameters describe a shape points can be placed in
+export const checkDesignParameters = (parameters: DesignParameters) => {
+  if (parameters.useCustomShape && parameters.boundaryShape === 'imported' && !parameters.importedOutline) {
+    throw new Error('The imported boundary shape needs an importedOutline.');
+  }
+  if (parameters.densityMode === 'image' && !parameters.densityImage) {
+    throw new Error('The image density mode needs a density image, which only the designer can set.');
+  }
+};
+
+// Helper function to get the settings the designer starts with
+export const getDefaultSettings = (): BatchSettings => ({
+  parameters: { ...DEFAULT_DESIGN_PARAMETERS },
+  layers: { ...DEFAULT_EXPORT_LAYERS },
+  unit: 'mm',
+  kerfMM: 0,
+  formats: ['dxf']
+});
+
+// Helper function to take the settings of a saved project. Each batch seed replaces its seed and points.
+const getProjectSettings = (project: ProjectFile): BatchSettings => {
+  return {
+    parameters: getProjectDesignParameters(project),
+    layers: {
+      voronoi: project.export.voronoi,
+      delaunay: project.export.delaunay,
+      points: project.export.points,
+      doubleBorder: project.export.doubleBorder,
+      boundary: project.export.boundary,
+      keepOuts: project.export.keepOuts
+    },
+    unit: project.physical.unit,
+    kerfMM: project.export.kerfCompensation ? project.material.kerfMM : 0,
+    formats: ['dxf']
+  };
+};
+
+// Parse a preset: a project saved by the designer, or design parameters and export settings
+// on top of the designer's defaults
+export const parsePreset = (text: string): BatchSettings => {
+  let preset: Record<string, unknown>;
+  try {
+    preset = JSON.parse(text);
+  } catch {
+    throw new Error('The preset is not valid JSON.');
+  }
+  if (!preset || typeof preset !== 'object' || Array.isArray(preset)) {
+    throw new Error('The preset must hold a JSON object.');
+  }
+  if (preset.format === PROJECT_FORMAT) {
+    return getProjectSettings(parseProjectFile(text));
+  }
+
+  const settings = getDefaultSettings();
+
+  for (const [key, value] of Object.entries(preset)) {
+    if (key === 'layers') {
+      if (!Array.isArray(value)) throw new Error('"layers" must be a list of layer names.');
+      settings.layers = parseLayers(value.map(String));
+    } else if (key === 'formats') {
+      if (!Array.isArray(value)) throw new Error('"formats" must be a list of formats.');
+      settings.formats = parseFormats(value.map(String));
+    } else if (key === 'unit') {
+      settings.unit = parseUnit(value);
+    } else if (key === 'kerfMM') {
+      settings.kerfMM = checkRange('"kerfMM"', value, { min: 0, max: MAX_KERF_MM });
+    } else if (key === 'seed' || key === 'densityImage') {
+      // Seeds come from --seeds, and density images only from the designer
+      throw new Error(`"${key}" can't be set in a preset.`);
+    } else if (key in DEFAULT_DESIGN_PARAMETERS) {
+      const parameter = key as keyof DesignParameters;
+      settings.parameters = { ...settings.parameters, [parameter]: checkDesignParameter(`"${key}"`, parameter, value) };
+    } else {
+      throw new Error(`Unknown preset setting "${key}".`);
+    }
+  }
+
+  return settings;
+};
+
+// Read a preset file
+export const readPreset = (file: string): BatchSettings => {
+  try {
+    return parsePreset(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`The preset ${file} could not be used. ${error instanceof Error ? error.message : ''}`.trim());
+  }
+};
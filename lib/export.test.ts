@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_DESIGN_PARAMETERS, generateDesign } from './pattern';
+import { DEFAULT_EXPORT_LAYERS, DEFAULT_GCODE_SETTINGS, ExportLayers, VectorExportOptions, createDXF, createGCode, createSVG } from './export';
+
+const design = generateDesign({ ...DEFAULT_DESIGN_PARAMETERS, seed: 3, physicalWidthMM: 100 });
+
+const options = (layers: Partial<ExportLayers> = {}): VectorExportOptions => ({
+  layers: { ...DEFAULT_EXPORT_LAYERS, ...layers },
+  unit: 'mm',
+  kerfMM: 0,
+  fillMode: 'none',
+  palette: []
+});
+
+// Helper function to count the entities of one type on one DXF layer
+const countEntities = (dxf: string, type: string, layer: string) => {
+  const lines = dxf.split('\n').map(line => line.trim());
+  let count = 0;
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (lines[i] === '0' && lines[i + 1] === type) {
+      const layerIndex = lines.indexOf('8', i + 2);
+      if (lines[layerIndex + 1] === layer) count++;
+    }
+  }
+  return count;
+};
+
+describe('createDXF', () => {
+  it('writes one inset outline per cell and the boundary', () => {
+    const dxf = createDXF(design, options());
+    assert.equal(countEntities(dxf, 'LWPOLYLINE', 'INSET'), design.points.length);
+    assert.equal(countEntities(dxf, 'LWPOLYLINE', 'BOUNDARY'), 1);
+    assert.equal(countEntities(dxf, 'LWPOLYLINE', 'VORONOI'), 0);
+  });
+
+  it('leaves cell fills out, so no outline is cut twice', () => {
+    const dxf = createDXF(design, { ...options(), fillMode: 'random', palette: ['#ff0000', '#00ff00'] });
+    assert.doesNotMatch(dxf, /FILL-/);
+    assert.equal(countEntities(dxf, 'LWPOLYLINE', 'INSET'), design.points.length);
+  });
+
+  it('records the document unit', () => {
+    const insUnits = (dxf: string) => /\$INSUNITS\s+70\s+(\d+)/.exec(dxf)?.[1];
+    assert.equal(insUnits(createDXF(design, options())), '4');
+    assert.equal(insUnits(createDXF(design, { ...options(), unit: 'in' })), '1');
+  });
+});
+
+describe('createSVG', () => {
+  it('sizes the document so the boundary has its physical width', () => {
+    const svg = createSVG(design, options());
+    const width = Number(/width="([\d.]+)mm"/.exec(svg)![1]);
+    assert.ok(Math.abs(width - (100 * 800) / design.boundary!.width) < 0.01);
+  });
+
+  it('sizes a document without a boundary by its aspect', () => {
+    const square = generateDesign({ ...DEFAULT_DESIGN_PARAMETERS, useCustomShape: false, documentAspect: 1, physicalWidthMM: 100 });
+    const svg = createSVG(square, options({ boundary: false }));
+    assert.match(svg, /width="100(\.0+)?mm" height="100(\.0+)?mm"/);
+  });
+
+  it('fills the cells with palette colors', () => {
+    const svg = createSVG(design, { ...options(), fillMode: 'random', palette: ['#ff0000', '#00ff00'] });
+    assert.match(svg, /<g id="fills"/);
+    assert.match(svg, /fill="#(ff0000|00ff00)"/);
+  });
+
+  it('writes only the selected layers', () => {
+    const svg = createSVG(design, options({ voronoi: true, doubleBorder: false }));
+    assert.match(svg, /<g id="voronoi"/);
+    assert.match(svg, /<g id="boundary"/);
+    assert.doesNotMatch(svg, /<g id="double-border"/);
+  });
+});
+
+describe('createGCode', () => {
+  it('draws every selected path between pen down and pen up', () => {
+    const gcode = createGCode(design, options().layers, DEFAULT_GCODE_SETTINGS);
+    const lines = gcode.trim().split('\n');
+    assert.equal(lines.filter(line => line === DEFAULT_GCODE_SETTINGS.penDown).length, design.points.length + 1);
+    assert.equal(lines[lines.length - 1], 'M2');
+  });
+
+  it('travels between paths with rapid moves', () => {
+    const lines = createGCode(design, options().layers, DEFAULT_GCODE_SETTINGS).trim().split('\n');
+    lines.forEach((line, i) => {
+      // Every move that follows a pen up is a travel move
+      if (i > 0 && lines[i - 1] === DEFAULT_GCODE_SETTINGS.penUp && /^G[01] /.test(line)) {
+        assert.match(line, /^G0 /);
+      }
+    });
+    assert.ok(!lines.some(line => line.startsWith('G1') && line.endsWith(`F${DEFAULT_GCODE_SETTINGS.travelRate}`)));
+  });
+
+  it('cuts whole passes that end at the full depth', () => {
+    const gcode = createGCode(design, options().layers, { ...DEFAULT_GCODE_SETTINGS, tool: 'router', depth: 3, passes: 2.5 });
+    const depths = [...gcode.matchAll(/^G1 Z(-[\d.]+)/gm)].map(match => Number(match[1]));
+    assert.deepEqual([...new Set(depths)], [-1, -2, -3]);
+    assert.match(gcode, /, 3 pass\(es\)/);
+  });
+});
+
+describe('kerf compensation', () => {
+  it('shrinks keep-out holes the same way in every format', () => {
+    const withKeepOut = generateDesign({
+      ...DEFAULT_DESIGN_PARAMETERS,
+      seed: 3,
+      physicalWidthMM: 100,
+      keepOuts: [{ id: 1, shape: 'rectangle', x: 0, y: 0, width: 20, height: 10, outline: null }]
+    });
+    const layers = { ...DEFAULT_EXPORT_LAYERS, doubleBorder: false, boundary: false };
+
+    // With a 1 mm kerf the path runs 0.5 mm inside the 20 mm × 10 mm keep-out, so 19 mm × 9 mm
+    const svg = createSVG(withKeepOut, { ...options(), layers, kerfMM: 1 });
+    const keepOutGroup = /<g id="keep-outs"[^>]*>(.*?)<\/g>/.exec(svg)![1];
+    const xs = [...keepOutGroup.matchAll(/([\d.]+),([\d.]+)/g)].map(match => Number(match[1]));
+    assert.ok(Math.abs(Math.max(...xs) - Math.min(...xs) - 19) < 0.01);
+
+    const gcode = createGCode(withKeepOut, { ...layers, keepOuts: true }, {
+      ...DEFAULT_GCODE_SETTINGS,
+      tool: 'router',
+      toolDiameter: 1
+    });
+    const moves = gcode.split('; Keep-out zones')[1].split('\n')
+      .filter(line => line.startsWith('G1 X') && line.endsWith(`F${DEFAULT_GCODE_SETTINGS.feedRate}`))
+      .map(line => Number(/X([-\d.]+)/.exec(line)![1]));
+    assert.ok(Math.abs(Math.max(...moves) - Math.min(...moves) - 19) < 0.01);
+  });
+});
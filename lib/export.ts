@@ -0,0 +1,530 @@
+// File formats a design is exported to: DXF and SVG drawings, G-code and PNG metadata.
+// Exports are built as strings and bytes; saving them is up to the caller.
+
+import Drawing from 'dxf-writer';
+import {
+  ArcVertex,
+  Chain,
+  Point,
+  chainUniqueEdges,
+  filletPolygon,
+  getBulgeArc
+} from './geometry';
+import {
+  Design,
+  FillMode,
+  createDiagram,
+  getBoundaryCutPath,
+  getCellColorIndices,
+  getClippedCells,
+  getClippedTriangles,
+  getDesignSize,
+  getKeepOutCutPaths,
+  getKerfOffset,
+  getScaleFactor
+} from './pattern';
+
+// Units documents can be sized and exported in
+export type DocumentUnit = 'mm' | 'in';
+export const DOCUMENT_UNITS: Record<DocumentUnit, { mm: number; dxf: 'Millimeters' | 'Inches'; decimals: number }> = {
+  mm: { mm: 1, dxf: 'Millimeters', decimals: 3 },
+  in: { mm: 25.4, dxf: 'Inches', decimals: 4 }
+};
+
+// Machine settings for G-code export. Lengths are in mm and rates in mm/min.
+export interface GCodeSettings {
+  tool: 'pen' | 'router';
+  feedRate: number;
+  travelRate: number; // Rapids ignore it on most controllers; some plotter firmware uses it for G0
+  penUp: string;
+  penDown: string;
+  safeZ: number;
+  depth: number;
+  passes: number;
+  toolDiameter: number;
+  startX: number;
+  startY: number;
+}
+
+export const DEFAULT_GCODE_SETTINGS: GCodeSettings = {
+  tool: 'pen',
+  feedRate: 1500,
+  travelRate: 3000,
+  penUp: 'M5',
+  penDown: 'M3 S1000',
+  safeZ: 5,
+  depth: 3,
+  passes: 1,
+  toolDiameter: 3.175,
+  startX: 0,
+  startY: 0
+};
+
+// Continuous path for a machine to follow, open or closed
+export interface ToolPath {
+  vertices: ArcVertex[];
+  closed: boolean;
+}
+
+// Elements of a design to include in an export
+export interface ExportLayers {
+  voronoi: boolean;
+  delaunay: boolean;
+  points: boolean;
+  doubleBorder: boolean;
+  boundary: boolean;
+  keepOuts: boolean;
+}
+
+// Layers exported unless chosen otherwise
+export const DEFAULT_EXPORT_LAYERS: ExportLayers = {
+  voronoi: false,
+  delaunay: false,
+  points: false,
+  doubleBorder: true,
+  boundary: true,
+  keepOuts: true
+};
+
+// Options for DXF and SVG exports
+export interface VectorExportOptions {
+  layers: ExportLayers;
+  unit: DocumentUnit;
+  kerfMM: number; // Kerf width the cuts are compensated for, 0 for none
+  fillMode: FillMode; // 'none' leaves the cells unfilled; only SVG has fills
+  palette: string[];
+}
+
+// Write the selected layers of a design as a DXF drawing.
+// DXF gets no cell fills: polylines can't be filled, and outline copies on extra layers would be cut twice.
+export const createDXF = (design: Design, options: VectorExportOptions): string => {
+  const { points, boundary, keepOutGeometry } = design;
+  const { filletRadius } = design.parameters;
+  const { layers, unit, kerfMM } = options;
+  const drawing = new Drawing();
+
+  // One named, colored layer per element type so cut and engrave settings can be assigned per layer
+  drawing.addLayer('VORONOI', Drawing.ACI.BLUE, 'CONTINUOUS');
+  drawing.addLayer('INSET', Drawing.ACI.CYAN, 'CONTINUOUS');
+  drawing.addLayer('DELAUNAY', Drawing.ACI.RED, 'CONTINUOUS');
+  drawing.addLayer('BOUNDARY', Drawing.ACI.GREEN, 'CONTINUOUS');
+  drawing.addLayer('POINTS', Drawing.ACI.MAGENTA, 'CONTINUOUS');
+  drawing.addLayer('KEEPOUT', Drawing.ACI.YELLOW, 'CONTINUOUS');
+
+  // Write coordinates in the document unit and record it in $INSUNITS
+  drawing.setUnits(DOCUMENT_UNITS[unit].dxf);
+  const scaleFactor = getScaleFactor(design) / DOCUMENT_UNITS[unit].mm;
+  const kerfOffset = getKerfOffset(design, kerfMM);
+
+  // Helper function to scale coordinates
+  const scaleCoord = (coord: number) => coord * scaleFactor;
+
+  // Helper function to draw a closed polygon as an LWPOLYLINE entity
+  const drawPolygon = (polygon: number[][]) => {
+    drawing.drawPolyline(polygon.map(([x, y]) => [scaleCoord(x), scaleCoord(y)]), true);
+  };
+
+  // Create Delaunay triangulation and Voronoi diagram
+  const { delaunay, voronoi } = createDiagram(points, getDesignSize(design.parameters));
+  const { cells, insetCells } = getClippedCells(design, voronoi, kerfOffset);
+
+  // Helper function to draw a closed ring with fillets as polyline bulges
+  const drawArcRing = (ring: ArcVertex[]) => {
+    // dxf-writer writes a third coordinate as the vertex bulge, which its typings leave out
+    const vertices = ring.map(vertex => [scaleCoord(vertex.x), scaleCoord(vertex.y), vertex.bulge]);
+    drawing.drawPolyline(vertices as unknown as [number, number][], true);
+  };
+
+  // Helper function to draw a chained polyline from the edge graph
+  const drawChain = (chain: Chain) => {
+    drawing.drawPolyline(chain.points.map(([x, y]) => [scaleCoord(x), scaleCoord(y)]), chain.closed);
+  };
+
+  // Add Voronoi edges to DXF, each shared edge once so it's cut once
+  if (layers.voronoi) {
+    drawing.setActiveLayer('VORONOI');
+    chainUniqueEdges(cells).forEach(drawChain);
+  }
+
+  // Add Delaunay edges to DXF
+  if (layers.delaunay) {
+    drawing.setActiveLayer('DELAUNAY');
+    chainUniqueEdges(getClippedTriangles(design, delaunay)).forEach(drawChain);
+  }
+
+  // Add double border (inset Voronoi cells) to DXF, with fillets as polyline bulges
+  if (layers.doubleBorder) {
+    drawing.setActiveLayer('INSET');
+    insetCells.forEach(cell => drawArcRing(filletPolygon(cell, Math.max(0, filletRadius - kerfOffset))));
+  }
+
+  // Add points to DXF
+  if (layers.points) {
+    drawing.setActiveLayer('POINTS');
+    points.forEach(point => {
+      drawing.drawPoint(scaleCoord(point.x), scaleCoord(point.y));
+    });
+  }
+
+  // Add custom boundary to DXF
+  if (boundary && layers.boundary) {
+    drawing.setActiveLayer('BOUNDARY');
+    getBoundaryCutPath(design, kerfOffset).forEach(drawPolygon);
+  }
+
+  // Add keep-out zones to DXF
+  if (layers.keepOuts && keepOutGeometry.outlines.length > 0) {
+    drawing.setActiveLayer('KEEPOUT');
+    getKeepOutCutPaths(design, kerfOffset).forEach(drawPolygon);
+  }
+
+  return drawing.toDxfString();
+};
+
+// Write the selected layers of a design as an SVG document sized in real-world units
+export const createSVG = (design: Design, options: VectorExportOptions): string => {
+  const { points, boundary, keepOutGeometry } = design;
+  const { filletRadius } = design.parameters;
+  const { layers, unit, kerfMM, fillMode, palette } = options;
+  const scaleFactor = getScaleFactor(design) / DOCUMENT_UNITS[unit].mm;
+  const kerfOffset = getKerfOffset(design, kerfMM);
+
+  // Round scaled coordinates to keep the file compact (a few µm precision)
+  const precision = 10 ** DOCUMENT_UNITS[unit].decimals;
+  const formatCoord = (coord: number) => String(Math.round(coord * scaleFactor * precision) / precision);
+  const formatPoint = (point: Point) => `${formatCoord(point.x)},${formatCoord(point.y)}`;
+
+  // Build a closed <polygon> element
+  const polygonElement = (polygon: number[][]) =>
+    `<polygon points="${polygon.map(([x, y]) => formatPoint({ x, y })).join(' ')}"/>`;
+
+  // Build the path data of a closed ring whose bulged edges are elliptical arc commands
+  const arcRingPath = (ring: ArcVertex[]) => {
+    const commands = ring.map((vertex, i) => {
+      const next = ring[(i + 1) % ring.length];
+      if (vertex.bulge === 0) return `L${formatPoint(next)}`;
+      const { radius, sweepAngle } = getBulgeArc(vertex, next, vertex.bulge);
+      const r = formatCoord(radius);
+      return `A${r} ${r} 0 ${Math.abs(sweepAngle) > Math.PI ? 1 : 0} ${sweepAngle > 0 ? 1 : 0} ${formatPoint(next)}`;
+    });
+    // The last command returns to the start, which Z already does for straight edges
+    if (commands[commands.length - 1].startsWith('L')) commands.pop();
+    return `M${formatPoint(ring[0])}${commands.join('')}Z`;
+  };
+
+  // Build a closed <path> element from a ring with arcs
+  const arcRingElement = (ring: ArcVertex[]) => `<path d="${arcRingPath(ring)}"/>`;
+
+  // Create Delaunay triangulation and Voronoi diagram
+  const { delaunay, voronoi } = createDiagram(points, getDesignSize(design.parameters));
+  const { cells, insetCells, cellRegions, insetRegions } = getClippedCells(design, voronoi, kerfOffset);
+
+  const groups: string[] = [];
+
+  // Add cell fills to SVG underneath the lines, one path per cell so holes stay open
+  if (fillMode !== 'none' && palette.length > 0) {
+    const colorIndices = getCellColorIndices(design, delaunay, cellRegions, fillMode, palette.length);
+    const elements = (layers.doubleBorder ? insetRegions : cellRegions).flatMap((region, i) => {
+      if (region.length === 0 || colorIndices[i] < 0) return [];
+      const data = region.map(ring => arcRingPath(layers.doubleBorder
+        ? filletPolygon(ring, Math.max(0, filletRadius - kerfOffset))
+        : ring.map(([x, y]) => ({ x, y, bulge: 0 })))).join('');
+      return [`<path fill="${palette[colorIndices[i]]}" d="${data}"/>`];
+    });
+    groups.push(`<g id="fills" stroke="none" fill-rule="evenodd">${elements.join('')}</g>`);
+  }
+
+  // Build a <polygon> or <polyline> element for a chained polyline from the edge graph
+  const chainElement = (chain: Chain) => chain.closed
+    ? polygonElement(chain.points)
+    : `<polyline points="${chain.points.map(([x, y]) => formatPoint({ x, y })).join(' ')}"/>`;
+
+  // Add Voronoi edges to SVG, each shared edge once
+  if (layers.voronoi) {
+    groups.push(`<g id="voronoi" stroke="#2563eb">${chainUniqueEdges(cells).map(chainElement).join('')}</g>`);
+  }
+
+  // Add Delaunay edges to SVG
+  if (layers.delaunay) {
+    groups.push(`<g id="delaunay" stroke="#dc2626">${chainUniqueEdges(getClippedTriangles(design, delaunay)).map(chainElement).join('')}</g>`);
+  }
+
+  // Add double border (inset Voronoi cells) to SVG
+  if (layers.doubleBorder) {
+    const elements = insetCells.map(cell => filletRadius > kerfOffset
+      ? arcRingElement(filletPolygon(cell, filletRadius - kerfOffset))
+      : polygonElement(cell));
+    groups.push(`<g id="double-border" stroke="#1d4ed8">${elements.join('')}</g>`);
+  }
+
+  // Add points to SVG
+  if (layers.points) {
+    const radius = formatCoord(3);
+    const elements = points.map(point =>
+      `<circle cx="${formatCoord(point.x)}" cy="${formatCoord(point.y)}" r="${radius}"/>`
+    );
+    groups.push(`<g id="points" fill="#1f2937" stroke="none">${elements.join('')}</g>`);
+  }
+
+  // Add custom boundary to SVG
+  if (boundary && layers.boundary) {
+    const elements = getBoundaryCutPath(design, kerfOffset).map(polygonElement);
+    groups.push(`<g id="boundary" stroke="#059669">${elements.join('')}</g>`);
+  }
+
+  // Add keep-out zones to SVG
+  if (layers.keepOuts && keepOutGeometry.outlines.length > 0) {
+    groups.push(`<g id="keep-outs" stroke="#ea580c">${getKeepOutCutPaths(design, kerfOffset).map(polygonElement).join('')}</g>`);
+  }
+
+  // Size the document in real-world units, with 0.1 mm hairlines
+  const size = getDesignSize(design.parameters);
+  const width = formatCoord(size.width);
+  const height = formatCoord(size.height);
+  const strokeWidth = String(Math.round((0.1 / DOCUMENT_UNITS[unit].mm) * precision) / precision);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}${unit}" height="${height}${unit}" viewBox="0 0 ${width} ${height}">`,
+    `<g fill="none" stroke-width="${strokeWidth}" stroke-linejoin="round">`,
+    ...groups,
+    '</g>',
+    '</svg>'
+  ].join('\n');
+};
+
+// Helper function to reverse the direction of an open tool path; each arc keeps its shape
+const reverseToolPath = (path: ToolPath): ToolPath => {
+  const reversed = [...path.vertices].reverse();
+  return {
+    vertices: reversed.map((vertex, i) => ({ ...vertex, bulge: i < reversed.length - 1 ? -reversed[i + 1].bulge : 0 })),
+    closed: path.closed
+  };
+};
+
+// Order tool paths to keep travel moves short: nearest neighbour from the start position,
+// improved with 2-opt. Closed paths are entered at their nearest vertex; open paths may be reversed.
+export const orderToolPaths = (paths: ToolPath[], start: Point): ToolPath[] => {
+  const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+  const remaining = [...paths];
+  const ordered: ToolPath[] = [];
+  let position = start;
+
+  while (remaining.length > 0) {
+    let best = { index: 0, vertex: 0, reverse: false, distance: Infinity };
+    remaining.forEach((path, index) => {
+      const { vertices } = path;
+      if (path.closed) {
+        vertices.forEach((vertex, i) => {
+          const d = distance(position, vertex);
+          if (d < best.distance) best = { index, vertex: i, reverse: false, distance: d };
+        });
+      } else {
+        const toStart = distance(position, vertices[0]);
+        const toEnd = distance(position, vertices[vertices.length - 1]);
+        if (Math.min(toStart, toEnd) < best.distance) {
+          best = { index, vertex: 0, reverse: toEnd < toStart, distance: Math.min(toStart, toEnd) };
+        }
+      }
+    });
+
+    let [path] = remaining.splice(best.index, 1);
+    if (path.closed) {
+      path = { vertices: [...path.vertices.slice(best.vertex), ...path.vertices.slice(0, best.vertex)], closed: true };
+    } else if (best.reverse) {
+      path = reverseToolPath(path);
+    }
+    ordered.push(path);
+    const { vertices } = path;
+    position = path.closed ? vertices[0] : vertices[vertices.length - 1];
+  }
+
+  // 2-opt: reversing a run of paths (and each open path in it) while that shortens the travel
+  const entry = (path: ToolPath) => path.vertices[0];
+  const exit = (path: ToolPath) => path.closed ? path.vertices[0] : path.vertices[path.vertices.length - 1];
+  const maxRounds = 20;
+  for (let round = 0, improved = true; improved && round < maxRounds; round++) {
+    improved = false;
+    for (let i = 0; i < ordered.length - 1; i++) {
+      const before = i === 0 ? start : exit(ordered[i - 1]);
+      for (let j = i + 1; j < ordered.length; j++) {
+        const after = j + 1 < ordered.length ? entry(ordered[j + 1]) : null;
+        const current = distance(before, entry(ordered[i])) + (after ? distance(exit(ordered[j]), after) : 0);
+        const swapped = distance(before, exit(ordered[j])) + (after ? distance(entry(ordered[i]), after) : 0);
+        if (swapped < current - 1e-9) {
+          const run = ordered.slice(i, j + 1).reverse().map(path => path.closed ? path : reverseToolPath(path));
+          ordered.splice(i, run.length, ...run);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return ordered;
+};
+
+// Write the selected layers of a design as G-code for pen plotters and CNC routers
+export const createGCode = (design: Design, layers: ExportLayers, settings: GCodeSettings): string => {
+  const { points, boundary, keepOutGeometry } = design;
+  const { filletRadius } = design.parameters;
+  const scaleFactor = getScaleFactor(design);
+  const isRouter = settings.tool === 'router';
+  const designHeight = getDesignSize(design.parameters).height;
+  // Whole passes only, so the last pass always reaches the full depth
+  const passes = Math.max(1, Math.round(settings.passes));
+
+  // Routers cut cutouts inside and outlines outside the line by the tool radius
+  const toolOffset = isRouter ? settings.toolDiameter / 2 / scaleFactor : 0;
+
+  // Convert design coordinates to machine millimeters with Y pointing up; mirroring flips the arcs
+  const toMachine = (ring: ArcVertex[], closed = true): ToolPath => ({
+    vertices: ring.map(vertex => ({
+      x: vertex.x * scaleFactor,
+      y: (designHeight - vertex.y) * scaleFactor,
+      bulge: -vertex.bulge
+    })),
+    closed
+  });
+  const straightRing = (polygon: number[][]) => polygon.map(([x, y]) => ({ x, y, bulge: 0 }));
+
+  const { delaunay, voronoi } = createDiagram(points, getDesignSize(design.parameters));
+  const { cells, insetCells } = getClippedCells(design, voronoi, toolOffset);
+
+  // Selected layers, innermost first so the outline is cut last
+  const toolPaths: { name: string; paths: ToolPath[] }[] = [];
+  if (layers.points) {
+    toolPaths.push({ name: 'Points', paths: points.map(point => toMachine([{ ...point, bulge: 0 }], false)) });
+  }
+  if (layers.delaunay) {
+    const chains = chainUniqueEdges(getClippedTriangles(design, delaunay));
+    toolPaths.push({ name: 'Delaunay', paths: chains.map(chain => toMachine(straightRing(chain.points), chain.closed)) });
+  }
+  if (layers.voronoi) {
+    const chains = chainUniqueEdges(cells);
+    toolPaths.push({ name: 'Voronoi', paths: chains.map(chain => toMachine(straightRing(chain.points), chain.closed)) });
+  }
+  if (layers.doubleBorder) {
+    toolPaths.push({
+      name: 'Double border',
+      paths: insetCells.map(cell => toMachine(filletPolygon(cell, Math.max(0, filletRadius - toolOffset))))
+    });
+  }
+  if (layers.keepOuts && keepOutGeometry.outlines.length > 0) {
+    toolPaths.push({
+      name: 'Keep-out zones',
+      paths: getKeepOutCutPaths(design, toolOffset).map(outline => toMachine(straightRing(outline)))
+    });
+  }
+  if (boundary && layers.boundary) {
+    toolPaths.push({ name: 'Boundary', paths: getBoundaryCutPath(design, toolOffset).map(path => toMachine(straightRing(path))) });
+  }
+
+  // Round to 1 µm
+  const format = (value: number) => String(Math.round(value * 1000) / 1000);
+  const lines = [
+    '; Voronoi pattern',
+    `; ${settings.tool === 'router' ? `Router, ${settings.toolDiameter} mm tool, ${settings.depth} mm deep` : 'Pen plotter'}, ${passes} pass(es)`,
+    'G21 ; millimeters',
+    'G90 ; absolute positioning'
+  ];
+  const liftTool = () => lines.push(isRouter ? `G0 Z${format(settings.safeZ)}` : settings.penUp);
+  // Travel with the pen up or the tool retracted as rapid moves
+  const travelTo = (point: Point) => lines.push(`G0 X${format(point.x)} Y${format(point.y)} F${format(settings.travelRate)}`);
+
+  liftTool();
+  const start = { x: settings.startX, y: settings.startY };
+  travelTo(start);
+
+  let position = start;
+  toolPaths.forEach(layer => {
+    if (layer.paths.length === 0) return;
+    lines.push(`; ${layer.name}`);
+
+    orderToolPaths(layer.paths, position).forEach(path => {
+      const { vertices } = path;
+      travelTo(vertices[0]);
+
+      for (let pass = 1; pass <= passes; pass++) {
+        // Open paths start every pass from their first vertex again
+        if (pass > 1 && !path.closed) {
+          if (isRouter) liftTool();
+          travelTo(vertices[0]);
+        }
+
+        if (isRouter) {
+          const depth = (settings.depth * pass) / passes;
+          lines.push(`G1 Z${format(-depth)} F${format(settings.feedRate)}`);
+        } else {
+          lines.push(settings.penDown);
+        }
+
+        const edgeCount = path.closed ? vertices.length : vertices.length - 1;
+        for (let i = 0; i < edgeCount; i++) {
+          const vertex = vertices[i];
+          const next = vertices[(i + 1) % vertices.length];
+          if (vertex.bulge === 0) {
+            lines.push(`G1 X${format(next.x)} Y${format(next.y)} F${format(settings.feedRate)}`);
+          } else {
+            // Arc centers are given relative to the arc start; positive sweeps run counterclockwise
+            const { center, sweepAngle } = getBulgeArc(vertex, next, vertex.bulge);
+            lines.push(`${sweepAngle > 0 ? 'G3' : 'G2'} X${format(next.x)} Y${format(next.y)} ` +
+              `I${format(center.x - vertex.x)} J${format(center.y - vertex.y)} F${format(settings.feedRate)}`);
+          }
+        }
+
+        // Pens lift between passes; routers go deeper from where they are
+        if (!isRouter) liftTool();
+      }
+      if (isRouter) liftTool();
+
+      position = path.closed ? vertices[0] : vertices[vertices.length - 1];
+    });
+  });
+
+  travelTo(start);
+  lines.push('M2');
+
+  return lines.join('\n') + '\n';
+};
+
+// Helper function to compute the CRC-32 checksum of a PNG chunk
+const getCrc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Helper function to record the DPI in a PNG file as a pHYs chunk, replacing any existing one
+export const setPngResolution = (png: Uint8Array, dpi: number): Uint8Array => {
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // pHYs
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // Pixels per meter
+  view.setUint32(17, getCrc32(chunk.subarray(4, 17)));
+
+  // Walk the chunks after the 8-byte signature; pHYs must come before the image data
+  const pngView = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  let offset = 8;
+  while (offset + 8 <= png.length) {
+    const length = pngView.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    if (type === 'pHYs' || type === 'IDAT') {
+      const skip = type === 'pHYs' ? length + 12 : 0;
+      const result = new Uint8Array(png.length - skip + chunk.length);
+      result.set(png.subarray(0, offset));
+      result.set(chunk, offset);
+      result.set(png.subarray(offset + skip), offset + chunk.length);
+      return result;
+    }
+    offset += length + 12;
+  }
+  return png;
+};
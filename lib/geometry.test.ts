@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { chainUniqueEdges, createInsetPolygon, filletPolygon, getSignedArea } from './geometry';
+
+const square = (x: number, y: number, size: number) => [[x, y], [x + size, y], [x + size, y + size], [x, y + size]];
+
+describe('createInsetPolygon', () => {
+  it('moves every edge of a square inward by the offset', () => {
+    const inset = createInsetPolygon([square(0, 0, 100)], 10, 'miter');
+    assert.equal(inset.length, 1);
+    assert.ok(Math.abs(getSignedArea(inset[0]) - 80 * 80) < 1e-6);
+    for (const [x, y] of inset[0]) {
+      assert.ok(Math.abs(x - 10) < 1e-6 || Math.abs(x - 90) < 1e-6);
+      assert.ok(Math.abs(y - 10) < 1e-6 || Math.abs(y - 90) < 1e-6);
+    }
+  });
+
+  it('grows holes by the offset', () => {
+    const hole = [...square(40, 40, 20)].reverse();
+    const inset = createInsetPolygon([square(0, 0, 100), hole], 5, 'miter');
+    const area = inset.reduce((sum, ring) => sum + getSignedArea(ring), 0);
+    assert.ok(Math.abs(area - (90 * 90 - 30 * 30)) < 1e-6);
+  });
+
+  it('drops regions narrower than twice the offset', () => {
+    assert.deepEqual(createInsetPolygon([square(0, 0, 10)], 6, 'round'), []);
+  });
+});
+
+describe('filletPolygon', () => {
+  it('replaces every corner of a square with a quarter arc', () => {
+    const ring = filletPolygon(square(0, 0, 100), 10);
+    assert.equal(ring.length, 8);
+    const arcs = ring.filter(vertex => vertex.bulge !== 0);
+    assert.equal(arcs.length, 4);
+    for (const arc of arcs) {
+      assert.ok(Math.abs(arc.bulge - Math.tan(Math.PI / 8)) < 1e-9);
+    }
+    // The first corner's arc runs from the incoming edge to the outgoing one
+    assert.ok(Math.hypot(ring[0].x, ring[0].y - 10) < 1e-9);
+    assert.ok(Math.hypot(ring[1].x - 10, ring[1].y) < 1e-9);
+  });
+
+  it('clamps the fillet to half of the shorter edge', () => {
+    const ring = filletPolygon([[0, 0], [20, 0], [20, 100], [0, 100]], 50);
+    assert.ok(ring.every(vertex => vertex.x >= 0 && vertex.x <= 20));
+    assert.ok(ring.some(vertex => vertex.x === 10));
+  });
+
+  it('leaves the polygon unchanged without a radius', () => {
+    assert.deepEqual(filletPolygon(square(0, 0, 10), 0).map(vertex => vertex.bulge), [0, 0, 0, 0]);
+  });
+});
+
+describe('chainUniqueEdges', () => {
+  it('draws an edge shared by two rings once', () => {
+    const chains = chainUniqueEdges([square(0, 0, 10), square(10, 0, 10)]);
+    const length = chains.reduce((sum, chain) => {
+      const points = chain.closed ? [...chain.points, chain.points[0]] : chain.points;
+      return sum + points.slice(1).reduce((total, point, i) =>
+        total + Math.hypot(point[0] - points[i][0], point[1] - points[i][1]), 0);
+    }, 0);
+    assert.ok(Math.abs(length - 70) < 1e-9);
+  });
+
+  it('chains a single ring into one closed loop', () => {
+    const chains = chainUniqueEdges([square(0, 0, 10)]);
+    assert.equal(chains.length, 1);
+    assert.equal(chains[0].closed, true);
+    assert.equal(chains[0].points.length, 4);
+  });
+});
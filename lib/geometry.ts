@@ -0,0 +1,673 @@
+// Polygon geometry used to build, clip, offset and round the pattern cells.
+// Polygons are arrays of [x, y] vertices; regions are arrays of rings, with outer rings
+// wound positively and holes wound negatively.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type BorderJoin = 'miter' | 'round' | 'bevel';
+
+// Ring vertex; the edge to the next vertex is a circular arc when bulge (tan of a quarter of its sweep) is non-zero
+export interface ArcVertex {
+  x: number;
+  y: number;
+  bulge: number;
+}
+
+// Polyline of an edge graph, open or closed
+export interface Chain {
+  points: number[][];
+  closed: boolean;
+}
+
+// Helper function to get the signed area of a polygon (positive when the interior is left of each edge)
+export const getSignedArea = (polygon: number[][]): number => {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const current = polygon[i];
+    const next = polygon[(i + 1) % polygon.length];
+    area += current[0] * next[1] - next[0] * current[1];
+  }
+  return area / 2;
+};
+
+// Helper function to get how many times a ring winds counterclockwise around a point
+export const getWindingNumber = (point: number[], ring: number[][]): number => {
+  let winding = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const start = ring[i];
+    const end = ring[(i + 1) % ring.length];
+    const side = (end[0] - start[0]) * (point[1] - start[1]) - (point[0] - start[0]) * (end[1] - start[1]);
+    if (start[1] <= point[1]) {
+      if (end[1] > point[1] && side > 0) winding++;
+    } else if (end[1] <= point[1] && side < 0) {
+      winding--;
+    }
+  }
+  return winding;
+};
+
+// Helper function to remove repeated and collinear vertices from a polygon
+export const cleanPolygon = (polygon: number[][]): number[][] => {
+  const cleaned: number[][] = [];
+  for (const point of polygon) {
+    const last = cleaned[cleaned.length - 1];
+    if (!last || Math.hypot(point[0] - last[0], point[1] - last[1]) > 1e-9) {
+      cleaned.push(point);
+    }
+  }
+  // d3-delaunay repeats the first vertex at the end of each cell
+  while (cleaned.length > 1 && Math.hypot(
+    cleaned[0][0] - cleaned[cleaned.length - 1][0],
+    cleaned[0][1] - cleaned[cleaned.length - 1][1]
+  ) <= 1e-9) {
+    cleaned.pop();
+  }
+
+  // Drop vertices that sit on a straight line between their neighbours
+  let removed = true;
+  while (removed && cleaned.length >= 3) {
+    removed = false;
+    for (let i = 0; i < cleaned.length; i++) {
+      const prev = cleaned[(i + cleaned.length - 1) % cleaned.length];
+      const current = cleaned[i];
+      const next = cleaned[(i + 1) % cleaned.length];
+      const ax = current[0] - prev[0], ay = current[1] - prev[1];
+      const bx = next[0] - current[0], by = next[1] - current[1];
+      const cross = ax * by - ay * bx;
+      if (Math.abs(cross) <= 1e-9 * Math.hypot(ax, ay) * Math.hypot(bx, by) && ax * bx + ay * by > 0) {
+        cleaned.splice(i, 1);
+        removed = true;
+        break;
+      }
+    }
+  }
+
+  return cleaned;
+};
+
+// Helper function to split closed rings into directed edges at every crossing, touch and overlap.
+// Coincident edges running the same way are merged and edges running opposite ways cancel out,
+// which leaves a planar set of edges that can be filtered and chained back into loops.
+export const splitRingsIntoEdges = (rings: number[][][]): number[][][] => {
+  const segments: number[][][] = [];
+  for (const ring of rings) {
+    for (let i = 0; i < ring.length; i++) {
+      segments.push([ring[i], ring[(i + 1) % ring.length]]);
+    }
+  }
+
+  // Points where each segment has to be split, keyed by their position along the segment
+  const splits: { t: number; point: number[] }[][] = segments.map(([start, end]) => [
+    { t: 0, point: start },
+    { t: 1, point: end }
+  ]);
+
+  // Parameter of a point projected onto a segment
+  const projectOnto = (point: number[], [start, end]: number[][]) => {
+    const dx = end[0] - start[0];
+    const dy = end[1] - start[1];
+    return ((point[0] - start[0]) * dx + (point[1] - start[1]) * dy) / (dx * dx + dy * dy);
+  };
+
+  for (let i = 0; i < segments.length; i++) {
+    const [a1, a2] = segments[i];
+    const ax = a2[0] - a1[0], ay = a2[1] - a1[1];
+    const aLength = Math.hypot(ax, ay);
+    if (aLength === 0) continue;
+
+    for (let j = i + 1; j < segments.length; j++) {
+      const [b1, b2] = segments[j];
+      const bx = b2[0] - b1[0], by = b2[1] - b1[1];
+      const bLength = Math.hypot(bx, by);
+      if (bLength === 0) continue;
+
+      const denom = ax * by - ay * bx;
+      if (Math.abs(denom) <= 1e-12 * aLength * bLength) {
+        // Parallel segments only interact when they overlap on the same line
+        const offLine = Math.abs((b1[0] - a1[0]) * ay - (b1[1] - a1[1]) * ax) / aLength;
+        if (offLine > 1e-9 * Math.max(1, aLength)) continue;
+
+        for (const point of [b1, b2]) {
+          const t = projectOnto(point, segments[i]);
+          if (t > 1e-12 && t < 1 - 1e-12) splits[i].push({ t, point });
+        }
+        for (const point of [a1, a2]) {
+          const u = projectOnto(point, segments[j]);
+          if (u > 1e-12 && u < 1 - 1e-12) splits[j].push({ t: u, point });
+        }
+        continue;
+      }
+
+      const t = ((b1[0] - a1[0]) * by - (b1[1] - a1[1]) * bx) / denom;
+      const u = ((b1[0] - a1[0]) * ay - (b1[1] - a1[1]) * ax) / denom;
+      if (t < -1e-12 || t > 1 + 1e-12 || u < -1e-12 || u > 1 + 1e-12) continue;
+
+      // Reuse exact endpoints so touching segments share identical vertices
+      const point = t <= 1e-12 ? a1 : t >= 1 - 1e-12 ? a2 :
+        u <= 1e-12 ? b1 : u >= 1 - 1e-12 ? b2 :
+          [a1[0] + t * ax, a1[1] + t * ay];
+      splits[i].push({ t: Math.max(0, Math.min(1, t)), point });
+      splits[j].push({ t: Math.max(0, Math.min(1, u)), point });
+    }
+  }
+
+  // Net count of directed edges between each pair of vertices
+  const keyOf = (point: number[]) => `${point[0]},${point[1]}`;
+  const edgeCounts = new Map<string, { from: number[]; to: number[]; count: number }>();
+  for (const segmentSplits of splits) {
+    segmentSplits.sort((a, b) => a.t - b.t);
+    for (let k = 1; k < segmentSplits.length; k++) {
+      const from = segmentSplits[k - 1].point;
+      const to = segmentSplits[k].point;
+      if (Math.hypot(to[0] - from[0], to[1] - from[1]) <= 1e-9) continue;
+
+      const forwardKey = `${keyOf(from)}>${keyOf(to)}`;
+      const backwardKey = `${keyOf(to)}>${keyOf(from)}`;
+      const backward = edgeCounts.get(backwardKey);
+      if (backward) {
+        backward.count -= 1;
+        if (backward.count === 0) edgeCounts.delete(backwardKey);
+      } else {
+        const forward = edgeCounts.get(forwardKey);
+        if (forward) {
+          forward.count += 1;
+        } else {
+          edgeCounts.set(forwardKey, { from, to, count: 1 });
+        }
+      }
+    }
+  }
+
+  return Array.from(edgeCounts.values()).map(({ from, to }) => [from, to]);
+};
+
+// Helper function to chain directed edges into closed loops.
+// At shared vertices the sharpest left turn is taken, so loops touching at a point stay separate.
+export const chainEdgesIntoLoops = (edges: number[][][]): number[][][] => {
+  const keyOf = (point: number[]) => `${point[0]},${point[1]}`;
+  const outgoing = new Map<string, number[][][]>();
+  for (const edge of edges) {
+    const key = keyOf(edge[0]);
+    outgoing.set(key, [...(outgoing.get(key) ?? []), edge]);
+  }
+
+  const used = new Set<number[][]>();
+  const loops: number[][][] = [];
+  for (const firstEdge of edges) {
+    if (used.has(firstEdge)) continue;
+
+    const loop: number[][] = [];
+    let edge: number[][] | undefined = firstEdge;
+    while (edge && !used.has(edge)) {
+      used.add(edge);
+      loop.push(edge[0]);
+
+      const inX = edge[1][0] - edge[0][0];
+      const inY = edge[1][1] - edge[0][1];
+      let nextEdge: number[][] | undefined;
+      let bestTurn = -Infinity;
+      for (const candidate of outgoing.get(keyOf(edge[1])) ?? []) {
+        if (used.has(candidate) && candidate !== firstEdge) continue;
+
+        const outX = candidate[1][0] - candidate[0][0];
+        const outY = candidate[1][1] - candidate[0][1];
+        const turn = Math.atan2(inX * outY - inY * outX, inX * outX + inY * outY);
+        if (turn > bestTurn) {
+          bestTurn = turn;
+          nextEdge = candidate;
+        }
+      }
+      edge = nextEdge;
+    }
+
+    // Only keep paths that made it back to where they started
+    if (edge === firstEdge && loop.length >= 3) {
+      loops.push(loop);
+    }
+  }
+
+  return loops;
+};
+
+// Helper function to orient a polygon so its interior is on the left of every edge
+export const orientPolygon = (polygon: number[][]): number[][] =>
+  getSignedArea(polygon) >= 0 ? polygon : [...polygon].reverse();
+
+// Helper function to keep the edges that separate the region from the rest,
+// directed so the region is on their left
+export const filterRegionEdges = (edges: number[][][], isInside: (point: number[]) => boolean): number[][][] =>
+  edges.flatMap(([from, to]) => {
+    const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+    const nudgeX = (-(to[1] - from[1]) / length) * 1e-6;
+    const nudgeY = ((to[0] - from[0]) / length) * 1e-6;
+    const midX = (from[0] + to[0]) / 2;
+    const midY = (from[1] + to[1]) / 2;
+    const leftInside = isInside([midX + nudgeX, midY + nudgeY]);
+    const rightInside = isInside([midX - nudgeX, midY - nudgeY]);
+    if (leftInside === rightInside) return [];
+    return leftInside ? [[from, to]] : [[to, from]];
+  });
+
+// Helper function to build the raw offset ring of a ring, with every edge moved `offset` to its left.
+// The result may intersect itself; callers keep the regions they need by winding number.
+const getRawOffsetRing = (ring: number[][], offset: number, join: BorderJoin): number[][] => {
+  const n = ring.length;
+
+  const directions = ring.map((point, i) => {
+    const next = ring[(i + 1) % n];
+    const length = Math.hypot(next[0] - point[0], next[1] - point[1]);
+    return [(next[0] - point[0]) / length, (next[1] - point[1]) / length];
+  });
+  const normals = directions.map(([dx, dy]) => [-dy, dx]);
+  const miterLimit = 2;
+
+  const rawRing: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    const prev = (i + n - 1) % n;
+    const vertex = ring[i];
+    const endOfPrev = [vertex[0] + normals[prev][0] * offset, vertex[1] + normals[prev][1] * offset];
+    const startOfNext = [vertex[0] + normals[i][0] * offset, vertex[1] + normals[i][1] * offset];
+    const cross = directions[prev][0] * directions[i][1] - directions[prev][1] * directions[i][0];
+
+    // Intersection of the two offset edge lines
+    let miterPoint: number[] | null = null;
+    if (Math.abs(cross) > 1e-9) {
+      const t = ((startOfNext[0] - endOfPrev[0]) * directions[i][1] - (startOfNext[1] - endOfPrev[1]) * directions[i][0]) / cross;
+      miterPoint = [endOfPrev[0] + t * directions[prev][0], endOfPrev[1] + t * directions[prev][1]];
+    }
+
+    if (cross > 1e-9) {
+      // Convex corner: the offset edges overlap. Routing through the original vertex keeps the
+      // winding of the raw ring correct even when a neighbouring edge is shorter than the offset.
+      rawRing.push(endOfPrev, vertex, startOfNext);
+    } else if (cross >= -1e-9 && directions[prev][0] * directions[i][0] + directions[prev][1] * directions[i][1] > 0) {
+      // Straight continuation
+      rawRing.push(startOfNext);
+    } else if (join === 'miter' && miterPoint &&
+      Math.hypot(miterPoint[0] - vertex[0], miterPoint[1] - vertex[1]) <= miterLimit * offset) {
+      rawRing.push(miterPoint);
+    } else if (join === 'round') {
+      const startAngle = Math.atan2(normals[prev][1], normals[prev][0]);
+      const sweep = Math.atan2(
+        normals[prev][0] * normals[i][1] - normals[prev][1] * normals[i][0],
+        normals[prev][0] * normals[i][0] + normals[prev][1] * normals[i][1]
+      );
+      const steps = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 16)));
+      for (let step = 0; step <= steps; step++) {
+        const angle = startAngle + (sweep * step) / steps;
+        rawRing.push([vertex[0] + Math.cos(angle) * offset, vertex[1] + Math.sin(angle) * offset]);
+      }
+    } else {
+      // Bevel, and the fallback for miters that exceed the miter limit
+      rawRing.push(endOfPrev, startOfNext);
+    }
+  }
+
+  return rawRing;
+};
+
+// Helper function to create inset polygon.
+// The region is given as outer rings wound positively and holes wound negatively. Every edge
+// is moved into the region by exactly `offset`, so outer rings shrink and holes grow; corners
+// where the offset edges separate are joined with a miter, round or bevel join. The raw offset
+// rings are then split at their intersections and only positively wound regions survive, so
+// parts of a cell that are too small vanish instead of flipping inside out.
+export const createInsetPolygon = (region: number[][][], offset: number, join: BorderJoin): number[][][] => {
+  const rings = region
+    .map(ring => cleanPolygon(ring))
+    .filter(ring => ring.length >= 3 && Math.abs(getSignedArea(ring)) >= 1e-9);
+  if (rings.length === 0) return [];
+  if (offset <= 0) return rings;
+
+  const rawRings = rings.map(ring => getRawOffsetRing(ring, offset, join));
+
+  // Keep the edges that separate positively wound regions of the raw rings from the rest
+  const validEdges = filterRegionEdges(
+    splitRingsIntoEdges(rawRings),
+    point => rawRings.reduce((winding, rawRing) => winding + getWindingNumber(point, rawRing), 0) > 0
+  );
+
+  return chainEdgesIntoLoops(validEdges)
+    .map(loop => cleanPolygon(loop))
+    .filter(loop => loop.length >= 3 && Math.abs(getSignedArea(loop)) > 1e-9);
+};
+
+// Helper function to grow a polygon outward by `offset`
+export const createOutsetPolygon = (polygon: number[][], offset: number, join: BorderJoin): number[][][] => {
+  const cleaned = cleanPolygon(polygon);
+  if (cleaned.length < 3 || Math.abs(getSignedArea(cleaned)) < 1e-9) return [];
+  if (offset <= 0) return [orientPolygon(cleaned)];
+
+  // Offsetting the reversed ring to its left moves every edge outward; the grown
+  // polygon is where the raw ring winds negatively
+  const rawRing = getRawOffsetRing([...orientPolygon(cleaned)].reverse(), offset, join);
+  const validEdges = filterRegionEdges(
+    splitRingsIntoEdges([rawRing]),
+    point => getWindingNumber(point, rawRing) < 0
+  );
+
+  return chainEdgesIntoLoops(validEdges)
+    .map(loop => cleanPolygon(loop))
+    .filter(loop => loop.length >= 3 && Math.abs(getSignedArea(loop)) > 1e-9);
+};
+
+// Helper function to round every corner of a ring with a fillet arc.
+// Each fillet is clamped so it uses at most half of either adjacent edge.
+export const filletPolygon = (polygon: number[][], radius: number): ArcVertex[] => {
+  const n = polygon.length;
+  if (radius <= 0 || n < 3) return polygon.map(([x, y]) => ({ x, y, bulge: 0 }));
+
+  const ring: ArcVertex[] = [];
+  for (let i = 0; i < n; i++) {
+    const prev = polygon[(i + n - 1) % n];
+    const vertex = polygon[i];
+    const next = polygon[(i + 1) % n];
+    const inLength = Math.hypot(vertex[0] - prev[0], vertex[1] - prev[1]);
+    const outLength = Math.hypot(next[0] - vertex[0], next[1] - vertex[1]);
+    const dirIn = [(vertex[0] - prev[0]) / inLength, (vertex[1] - prev[1]) / inLength];
+    const dirOut = [(next[0] - vertex[0]) / outLength, (next[1] - vertex[1]) / outLength];
+
+    // Signed turn at the corner, positive when turning left
+    const turn = Math.atan2(
+      dirIn[0] * dirOut[1] - dirIn[1] * dirOut[0],
+      dirIn[0] * dirOut[0] + dirIn[1] * dirOut[1]
+    );
+    if (Math.abs(turn) < 1e-6 || Math.abs(turn) > Math.PI - 1e-6) {
+      ring.push({ x: vertex[0], y: vertex[1], bulge: 0 });
+      continue;
+    }
+
+    // Distance from the corner to where the arc meets each edge
+    const tangentLength = Math.min(radius * Math.tan(Math.abs(turn) / 2), inLength / 2, outLength / 2);
+    ring.push(
+      { x: vertex[0] - dirIn[0] * tangentLength, y: vertex[1] - dirIn[1] * tangentLength, bulge: Math.tan(turn / 4) },
+      { x: vertex[0] + dirOut[0] * tangentLength, y: vertex[1] + dirOut[1] * tangentLength, bulge: 0 }
+    );
+  }
+
+  return ring;
+};
+
+// Helper function to get the circle of an arc between two vertices from its bulge
+export const getBulgeArc = (start: Point, end: Point, bulge: number) => {
+  // Center lies on the chord's perpendicular bisector
+  const chordX = end.x - start.x;
+  const chordY = end.y - start.y;
+  const centerOffset = (1 - bulge * bulge) / (4 * bulge);
+  const center = {
+    x: (start.x + end.x) / 2 - chordY * centerOffset,
+    y: (start.y + end.y) / 2 + chordX * centerOffset
+  };
+
+  return {
+    center,
+    radius: Math.hypot(start.x - center.x, start.y - center.y),
+    startAngle: Math.atan2(start.y - center.y, start.x - center.x),
+    sweepAngle: 4 * Math.atan(bulge)
+  };
+};
+
+// Helper function to check if point is inside polygon
+export const isPointInPolygon = (point: Point, polygon: Point[]): boolean => {
+  if (polygon.length < 3) return true;
+
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    if (((polygon[i].y > point.y) !== (polygon[j].y > point.y)) &&
+      (point.x < (polygon[j].x - polygon[i].x) * (point.y - polygon[i].y) / (polygon[j].y - polygon[i].y) + polygon[i].x)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Helper function to find how far a ray from the center travels before leaving an outline
+export const getOutlineRadius = (outline: Point[], center: Point, angle: number): number => {
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  let nearest = Infinity;
+
+  outline.forEach((start, i) => {
+    const end = outline[(i + 1) % outline.length];
+    const ex = end.x - start.x;
+    const ey = end.y - start.y;
+    const denominator = dx * ey - dy * ex;
+    if (Math.abs(denominator) < 1e-12) return;
+
+    const t = ((start.x - center.x) * ey - (start.y - center.y) * ex) / denominator;
+    const u = ((start.x - center.x) * dy - (start.y - center.y) * dx) / denominator;
+    if (t > 0 && u >= -1e-9 && u <= 1 + 1e-9) {
+      nearest = Math.min(nearest, t);
+    }
+  });
+
+  return Number.isFinite(nearest) ? nearest : 0;
+};
+
+// Helper function to turn rings that share edges into an edge graph: every edge is kept once
+// and the edges are chained into polylines. At each vertex the straightest pairs of edges are
+// joined, so the polylines run as far as possible, and collinear runs become single segments.
+export const chainUniqueEdges = (rings: number[][][]): Chain[] => {
+  // Snap vertices so the copies of a shared vertex computed for neighboring rings match
+  const vertices: number[][] = [];
+  const vertexIndices = new Map<string, number>();
+  const getVertexIndex = (point: number[]): number => {
+    const key = `${Math.round(point[0] * 1e5)},${Math.round(point[1] * 1e5)}`;
+    let index = vertexIndices.get(key);
+    if (index === undefined) {
+      index = vertices.length;
+      vertices.push(point);
+      vertexIndices.set(key, index);
+    }
+    return index;
+  };
+
+  const edges: [number, number][] = [];
+  const edgeKeys = new Set<string>();
+  rings.forEach(ring => ring.forEach((point, i) => {
+    const a = getVertexIndex(point);
+    const b = getVertexIndex(ring[(i + 1) % ring.length]);
+    const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+    if (a === b || edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push([a, b]);
+  }));
+
+  const incident: number[][] = vertices.map(() => []);
+  edges.forEach(([a, b], edge) => {
+    incident[a].push(edge);
+    incident[b].push(edge);
+  });
+  const otherEnd = (edge: number, vertex: number) => edges[edge][0] === vertex ? edges[edge][1] : edges[edge][0];
+
+  // Pair up the edges at each vertex, straightest continuation first
+  const partners = new Map<string, number>();
+  incident.forEach((list, vertex) => {
+    const direction = (edge: number) => {
+      const [x, y] = vertices[otherEnd(edge, vertex)];
+      const length = Math.hypot(x - vertices[vertex][0], y - vertices[vertex][1]);
+      return [(x - vertices[vertex][0]) / length, (y - vertices[vertex][1]) / length];
+    };
+    const pairs: { a: number; b: number; cosine: number }[] = [];
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const [ax, ay] = direction(list[i]);
+        const [bx, by] = direction(list[j]);
+        pairs.push({ a: list[i], b: list[j], cosine: ax * bx + ay * by });
+      }
+    }
+    // Opposite directions (cosine -1) continue straight through the vertex
+    pairs.sort((p, q) => p.cosine - q.cosine);
+    const paired = new Set<number>();
+    pairs.forEach(({ a, b }) => {
+      if (paired.has(a) || paired.has(b)) return;
+      paired.add(a);
+      paired.add(b);
+      partners.set(`${vertex}:${a}`, b);
+      partners.set(`${vertex}:${b}`, a);
+    });
+  });
+
+  const used = new Array(edges.length).fill(false);
+  const trace = (startVertex: number, startEdge: number): number[] => {
+    const chain = [startVertex];
+    let vertex = startVertex;
+    let edge: number | undefined = startEdge;
+    while (edge !== undefined && !used[edge]) {
+      used[edge] = true;
+      vertex = otherEnd(edge, vertex);
+      chain.push(vertex);
+      edge = partners.get(`${vertex}:${edge}`);
+    }
+    return chain;
+  };
+
+  // Open chains start at edges without a partner; whatever is left forms closed loops
+  const chains: { indices: number[]; closed: boolean }[] = [];
+  incident.forEach((list, vertex) => list.forEach(edge => {
+    if (!used[edge] && !partners.has(`${vertex}:${edge}`)) {
+      chains.push({ indices: trace(vertex, edge), closed: false });
+    }
+  }));
+  edges.forEach(([a], edge) => {
+    if (!used[edge]) chains.push({ indices: trace(a, edge).slice(0, -1), closed: true });
+  });
+
+  // Drop vertices in the middle of straight runs
+  return chains.map(({ indices, closed }) => {
+    const chain = indices.map(index => vertices[index]);
+    const kept = chain.filter((point, i) => {
+      if (!closed && (i === 0 || i === chain.length - 1)) return true;
+      const previous = chain[(i - 1 + chain.length) % chain.length];
+      const next = chain[(i + 1) % chain.length];
+      const cross = (point[0] - previous[0]) * (next[1] - point[1]) - (point[1] - previous[1]) * (next[0] - point[0]);
+      const dot = (point[0] - previous[0]) * (next[0] - point[0]) + (point[1] - previous[1]) * (next[1] - point[1]);
+      return dot <= 0 || Math.abs(cross) > 1e-6 * dot;
+    });
+    return { points: kept, closed };
+  });
+};
+
+// Helper function to find the closest points between two segments
+export const getSegmentDistance = (a1: number[], a2: number[], b1: number[], b2: number[]): { distance: number; from: Point; to: Point } => {
+  // Closest point on segment [start, end] to a point
+  const closestOnSegment = (point: number[], start: number[], end: number[]): number[] => {
+    const dx = end[0] - start[0];
+    const dy = end[1] - start[1];
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1,
+      ((point[0] - start[0]) * dx + (point[1] - start[1]) * dy) / lengthSquared));
+    return [start[0] + t * dx, start[1] + t * dy];
+  };
+
+  // Crossing segments touch
+  const d1 = (b2[0] - b1[0]) * (a1[1] - b1[1]) - (b2[1] - b1[1]) * (a1[0] - b1[0]);
+  const d2 = (b2[0] - b1[0]) * (a2[1] - b1[1]) - (b2[1] - b1[1]) * (a2[0] - b1[0]);
+  const d3 = (a2[0] - a1[0]) * (b1[1] - a1[1]) - (a2[1] - a1[1]) * (b1[0] - a1[0]);
+  const d4 = (a2[0] - a1[0]) * (b2[1] - a1[1]) - (a2[1] - a1[1]) * (b2[0] - a1[0]);
+  if (d1 * d2 < 0 && d3 * d4 < 0) {
+    const t = d1 / (d1 - d2);
+    const point = { x: a1[0] + t * (a2[0] - a1[0]), y: a1[1] + t * (a2[1] - a1[1]) };
+    return { distance: 0, from: point, to: point };
+  }
+
+  const candidates = [
+    [a1, closestOnSegment(a1, b1, b2)],
+    [a2, closestOnSegment(a2, b1, b2)],
+    [closestOnSegment(b1, a1, a2), b1],
+    [closestOnSegment(b2, a1, a2), b2]
+  ];
+  let best = { distance: Infinity, from: { x: 0, y: 0 }, to: { x: 0, y: 0 } };
+  for (const [from, to] of candidates) {
+    const distance = Math.hypot(to[0] - from[0], to[1] - from[1]);
+    if (distance < best.distance) {
+      best = { distance, from: { x: from[0], y: from[1] }, to: { x: to[0], y: to[1] } };
+    }
+  }
+  return best;
+};
+
+// Helper function to find the closest points between two sets of rings
+export const getRingsDistance = (a: number[][][], b: number[][][]): { distance: number; from: Point; to: Point } => {
+  let best = { distance: Infinity, from: { x: 0, y: 0 }, to: { x: 0, y: 0 } };
+  for (const ringA of a) {
+    for (let i = 0; i < ringA.length; i++) {
+      for (const ringB of b) {
+        for (let j = 0; j < ringB.length; j++) {
+          const result = getSegmentDistance(
+            ringA[i], ringA[(i + 1) % ringA.length], ringB[j], ringB[(j + 1) % ringB.length]
+          );
+          if (result.distance < best.distance) best = result;
+        }
+      }
+    }
+  }
+  return best;
+};
+
+// Helper function to estimate the diameter of the largest circle that fits inside a polygon.
+// A grid search around the best candidate is refined a few times.
+export const getInscribedDiameter = (polygon: number[][]): number => {
+  const xs = polygon.map(point => point[0]);
+  const ys = polygon.map(point => point[1]);
+  let [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const distanceToEdges = (point: number[]) => polygon.reduce((nearest, start, i) =>
+    Math.min(nearest, getSegmentDistance(point, point, start, polygon[(i + 1) % polygon.length]).distance), Infinity);
+
+  let best = 0;
+  const steps = 8;
+  for (let iteration = 0; iteration < 4; iteration++) {
+    let bestPoint: number[] | null = null;
+    for (let i = 0; i <= steps; i++) {
+      for (let j = 0; j <= steps; j++) {
+        const point = [minX + ((maxX - minX) * i) / steps, minY + ((maxY - minY) * j) / steps];
+        if (getWindingNumber(point, polygon) === 0) continue;
+        const distance = distanceToEdges(point);
+        if (distance > best) {
+          best = distance;
+          bestPoint = point;
+        }
+      }
+    }
+    if (!bestPoint) break;
+
+    // Zoom in around the best point found so far
+    const spanX = (maxX - minX) / steps;
+    const spanY = (maxY - minY) / steps;
+    [minX, maxX, minY, maxY] = [bestPoint[0] - spanX, bestPoint[0] + spanX, bestPoint[1] - spanY, bestPoint[1] + spanY];
+  }
+
+  return best * 2;
+};
+
+// Helper function to get the area and centroid of a polygon
+export const getPolygonCentroid = (polygon: number[][]): { area: number; centroid: Point } => {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const current = polygon[i];
+    const next = polygon[(i + 1) % polygon.length];
+    const cross = current[0] * next[1] - next[0] * current[1];
+    area += cross;
+    cx += (current[0] + next[0]) * cross;
+    cy += (current[1] + next[1]) * cross;
+  }
+  area /= 2;
+
+  if (Math.abs(area) < 1e-9) {
+    // Degenerate polygon, fall back to the vertex average
+    return {
+      area: 0,
+      centroid: {
+        x: polygon.reduce((sum, point) => sum + point[0], 0) / polygon.length,
+        y: polygon.reduce((sum, point) => sum + point[1], 0) / polygon.length
+      }
+    };
+  }
+
+  return { area, centroid: { x: cx / (6 * area), y: cy / (6 * area) } };
+};
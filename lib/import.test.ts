@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Point } from './geometry';
+import { SvgElement, normalizeOutline, parseDxfOutline, parseSvgOutline, parseSvgPath, parseSvgTransform } from './import';
+
+// Helper function to build an SVG element the way DOMParser would give it
+const element = (tagName: string, attributes: Record<string, string>, parentElement: SvgElement | null = null): SvgElement => ({
+  tagName,
+  parentElement,
+  getAttribute: name => attributes[name] ?? null
+});
+
+// Helper function to write DXF group code/value pairs, one per line
+const dxf = (...pairs: (string | number)[]) => pairs.join('\n');
+
+const assertNear = (actual: Point, expected: Point) =>
+  assert.ok(Math.hypot(actual.x - expected.x, actual.y - expected.y) < 1e-6, `${JSON.stringify(actual)} ≠ ${JSON.stringify(expected)}`);
+
+describe('parseSvgPath', () => {
+  it('reads absolute and relative lines into closed subpaths', () => {
+    const [square, triangle] = parseSvgPath('M0,0 H10 v10 l-10 0 z m20 0 L30 0 25 5Z');
+    assert.deepEqual(square, { points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }], closed: true });
+    assert.deepEqual(triangle, { points: [{ x: 20, y: 0 }, { x: 30, y: 0 }, { x: 25, y: 5 }], closed: true });
+  });
+
+  it('leaves subpaths without Z open', () => {
+    assert.equal(parseSvgPath('M0 0 L10 0 L10 10')[0].closed, false);
+  });
+
+  it('flattens curves and arcs onto their end points', () => {
+    const [curve] = parseSvgPath('M0 0 C0 10 10 10 10 0 Q15 -5 20 0 a5 5 0 015 5');
+    const points = curve.points;
+    assert.ok(points.length > 4);
+    assert.ok(points.some(point => Math.abs(point.y - 7.5) < 1e-9));
+    assertNear(points[points.length - 1], { x: 25, y: 5 });
+  });
+
+  it('rejects malformed data', () => {
+    assert.throws(() => parseSvgPath('10 10'), /malformed/);
+    assert.throws(() => parseSvgPath('M0 0 L10'), /malformed/);
+    assert.throws(() => parseSvgPath('M0 0 X10 10'), /Unsupported SVG path command "X"/);
+  });
+});
+
+describe('parseSvgTransform', () => {
+  it('applies transforms left to right', () => {
+    assert.deepEqual(parseSvgTransform('translate(10, 20) scale(2)'), [2, 0, 0, 2, 10, 20]);
+  });
+
+  it('rotates around the given center', () => {
+    const [a, b, c, d, e, f] = parseSvgTransform('rotate(90 10 0)');
+    assertNear({ x: a * 10 + c * 0 + e, y: b * 10 + d * 0 + f }, { x: 10, y: 0 });
+    assertNear({ x: a * 20 + c * 0 + e, y: b * 20 + d * 0 + f }, { x: 10, y: 10 });
+  });
+});
+
+describe('parseSvgOutline', () => {
+  it('scales user units to millimeters and applies ancestor transforms', () => {
+    const svg = element('svg', { width: '100mm', viewBox: '0 0 200 200' });
+    const group = element('g', { transform: 'translate(10 0)' }, svg);
+    const polygon = element('polygon', { points: '0,0 20,0 20,20' }, group);
+    assert.deepEqual(parseSvgOutline(svg, [polygon]), [{ x: 5, y: 0 }, { x: 15, y: 0 }, { x: 15, y: 10 }]);
+  });
+
+  it('skips paths without a closed subpath', () => {
+    const svg = element('svg', { width: '10mm', viewBox: '0 0 10 10' });
+    const open = element('path', { d: 'M0 0 L5 0 L5 5' }, svg);
+    const closed = element('path', { d: 'M0 0 L5 0 L5 5 Z' }, svg);
+    assert.equal(parseSvgOutline(svg, [open, closed]).length, 3);
+    assert.throws(() => parseSvgOutline(svg, [open]), /does not contain a closed/);
+  });
+});
+
+describe('parseDxfOutline', () => {
+  it('reads the largest closed polyline in the drawing units with y pointing down', () => {
+    const outline = parseDxfOutline(dxf(
+      0, 'SECTION', 2, 'HEADER', 9, '$INSUNITS', 70, 5, 0, 'ENDSEC',
+      0, 'SECTION', 2, 'ENTITIES',
+      0, 'LWPOLYLINE', 8, '0', 90, 3, 70, 1, 10, 0, 20, 0, 10, 1, 20, 0, 10, 1, 20, 1,
+      0, 'LWPOLYLINE', 8, '0', 90, 4, 70, 1, 10, 0, 20, 0, 10, 2, 20, 0, 10, 2, 20, 2, 10, 0, 20, 2,
+      0, 'ENDSEC', 0, 'EOF'
+    ));
+    assert.equal(outline.length, 4);
+    [{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: -20 }, { x: 0, y: -20 }].forEach((point, i) => assertNear(outline[i], point));
+  });
+
+  it('flattens bulges into arcs', () => {
+    // A half circle from (0, 0) to (10, 0), then two straight edges through (5, -5), which lies on the same circle
+    const outline = parseDxfOutline(dxf(
+      0, 'SECTION', 2, 'ENTITIES',
+      0, 'LWPOLYLINE', 8, '0', 90, 3, 70, 1, 10, 0, 20, 0, 42, 1, 10, 10, 20, 0, 10, 5, 20, -5,
+      0, 'ENDSEC', 0, 'EOF'
+    ));
+    assert.ok(outline.length > 5);
+    for (const point of outline) {
+      assert.ok(Math.abs(Math.hypot(point.x - 5, point.y) - 5) < 1e-6);
+    }
+  });
+
+  it('chains lines into a closed loop', () => {
+    const outline = parseDxfOutline(dxf(
+      0, 'SECTION', 2, 'ENTITIES',
+      0, 'LINE', 8, '0', 10, 0, 20, 0, 11, 10, 21, 0,
+      0, 'LINE', 8, '0', 10, 0, 20, 10, 11, 10, 21, 10,
+      0, 'LINE', 8, '0', 10, 10, 20, 0, 11, 10, 21, 10,
+      0, 'LINE', 8, '0', 10, 0, 20, 10, 11, 0, 21, 0,
+      0, 'ENDSEC', 0, 'EOF'
+    ));
+    assert.equal(outline.length, 4);
+  });
+
+  it('rejects drawings without a closed outline', () => {
+    assert.throws(() => parseDxfOutline('not a drawing'), /not a valid DXF/);
+    assert.throws(
+      () => parseDxfOutline(dxf(0, 'SECTION', 2, 'ENTITIES', 0, 'LINE', 8, '0', 10, 0, 20, 0, 11, 10, 21, 0, 0, 'ENDSEC')),
+      /does not contain a closed/
+    );
+  });
+});
+
+describe('normalizeOutline', () => {
+  it('centers the outline on the origin and measures it', () => {
+    const { outline, width, height } = normalizeOutline([{ x: 10, y: 10 }, { x: 40, y: 10 }, { x: 40, y: 30 }, { x: 10, y: 30 }]);
+    assert.equal(width, 30);
+    assert.equal(height, 20);
+    for (const point of outline) {
+      assert.equal(Math.abs(point.x), 15);
+      assert.equal(Math.abs(point.y), 10);
+    }
+  });
+
+  it('rejects outlines without area', () => {
+    assert.throws(() => normalizeOutline([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 20, y: 0 }]), /empty/);
+  });
+});
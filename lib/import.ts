@@ -0,0 +1,446 @@
+// Boundary and keep-out outlines imported from SVG and DXF files.
+// Parsing is plain string handling, so it runs in the designer and in Node alike.
+
+import { Point, cleanPolygon, getBulgeArc, getSignedArea, orientPolygon } from './geometry';
+
+// The parts of an SVG element the outline reader uses; DOM elements have them
+export interface SvgElement {
+  tagName: string;
+  parentElement: SvgElement | null;
+  getAttribute(name: string): string | null;
+}
+
+// Millimeters per unit for SVG lengths and DXF $INSUNITS codes
+const SVG_UNITS_MM: Record<string, number> = {
+  '': 25.4 / 96, px: 25.4 / 96, pt: 25.4 / 72, pc: 25.4 / 6, in: 25.4, cm: 10, mm: 1
+};
+const DXF_UNITS_MM: Record<number, number> = { 1: 25.4, 2: 304.8, 4: 1, 5: 10, 6: 1000 };
+
+// Helper function to sample a cubic or quadratic Bezier curve, excluding its start point
+const flattenBezier = (controlPoints: Point[], segments = 16): Point[] => {
+  const result: Point[] = [];
+  for (let i = 1; i <= segments; i++) {
+    const t = i / segments;
+    // De Casteljau's algorithm
+    let level = controlPoints;
+    while (level.length > 1) {
+      level = level.slice(1).map((point, j) => ({
+        x: level[j].x + (point.x - level[j].x) * t,
+        y: level[j].y + (point.y - level[j].y) * t
+      }));
+    }
+    result.push(level[0]);
+  }
+  return result;
+};
+
+// Helper function to sample an SVG elliptical arc, excluding its start point
+const flattenSvgArc = (
+  start: Point, end: Point, rx: number, ry: number, rotation: number, largeArc: boolean, sweep: boolean
+): Point[] => {
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return [end];
+
+  // Endpoint to center parameterization (SVG implementation notes, F.6.5)
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (start.x - end.x) / 2;
+  const dy = (start.y - end.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Scale up radii that are too small to reach the end point
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = (factor * rx * y1) / ry;
+  const cy1 = (-factor * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (start.x + end.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (start.y + end.y) / 2;
+
+  const startAngle = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx);
+  let sweepAngle = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx) - startAngle;
+  if (sweep && sweepAngle < 0) sweepAngle += 2 * Math.PI;
+  if (!sweep && sweepAngle > 0) sweepAngle -= 2 * Math.PI;
+
+  const segments = Math.max(2, Math.ceil(Math.abs(sweepAngle) / (Math.PI / 16)));
+  const result: Point[] = [];
+  for (let i = 1; i <= segments; i++) {
+    const angle = startAngle + (sweepAngle * i) / segments;
+    const ex = rx * Math.cos(angle);
+    const ey = ry * Math.sin(angle);
+    result.push({ x: cos * ex - sin * ey + cx, y: sin * ex + cos * ey + cy });
+  }
+  result[result.length - 1] = end;
+  return result;
+};
+
+// Flatten SVG path data into polylines, one per subpath
+export const parseSvgPath = (d: string): { points: Point[]; closed: boolean }[] => {
+  const subpaths: { points: Point[]; closed: boolean }[] = [];
+  let index = 0;
+  let command = '';
+  let current: Point = { x: 0, y: 0 };
+  let subpathStart: Point = { x: 0, y: 0 };
+  // Reflected control point for the smooth curve commands
+  let lastControl: Point | null = null;
+  let subpathOpen = false;
+
+  const skipSeparators = () => {
+    while (index < d.length && /[\s,]/.test(d[index])) index++;
+  };
+  const readNumber = (): number => {
+    skipSeparators();
+    const match = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(d.slice(index));
+    if (!match) throw new Error('The SVG path data is malformed.');
+    index += match[0].length;
+    return parseFloat(match[0]);
+  };
+  // Arc flags may be written without separators, e.g. "a5 5 0 013 4"
+  const readFlag = (): boolean => {
+    skipSeparators();
+    const flag = d[index++];
+    if (flag !== '0' && flag !== '1') throw new Error('The SVG path data is malformed.');
+    return flag === '1';
+  };
+  const lineTo = (point: Point) => {
+    if (!subpathOpen) {
+      subpaths.push({ points: [current], closed: false });
+      subpathOpen = true;
+    }
+    subpaths[subpaths.length - 1].points.push(point);
+    current = point;
+  };
+
+  while (true) {
+    skipSeparators();
+    if (index >= d.length) break;
+    if (/[a-zA-Z]/.test(d[index])) {
+      command = d[index++];
+    } else if (!command) {
+      throw new Error('The SVG path data is malformed.');
+    }
+
+    const relative = command === command.toLowerCase();
+    const offset = (x: number, y: number): Point =>
+      relative ? { x: current.x + x, y: current.y + y } : { x, y };
+    let control: Point | null = null;
+
+    switch (command.toUpperCase()) {
+      case 'M': {
+        current = offset(readNumber(), readNumber());
+        subpathStart = current;
+        subpathOpen = false;
+        // Further coordinate pairs are implicit line commands
+        command = relative ? 'l' : 'L';
+        break;
+      }
+      case 'L':
+        lineTo(offset(readNumber(), readNumber()));
+        break;
+      case 'H': {
+        const x = readNumber();
+        lineTo({ x: relative ? current.x + x : x, y: current.y });
+        break;
+      }
+      case 'V': {
+        const y = readNumber();
+        lineTo({ x: current.x, y: relative ? current.y + y : y });
+        break;
+      }
+      case 'C':
+      case 'S': {
+        const first = command.toUpperCase() === 'C'
+          ? offset(readNumber(), readNumber())
+          : lastControl
+            ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+            : current;
+        control = offset(readNumber(), readNumber());
+        const end = offset(readNumber(), readNumber());
+        flattenBezier([current, first, control, end]).forEach(lineTo);
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        control = command.toUpperCase() === 'Q'
+          ? offset(readNumber(), readNumber())
+          : lastControl
+            ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+            : current;
+        const end = offset(readNumber(), readNumber());
+        flattenBezier([current, control, end]).forEach(lineTo);
+        break;
+      }
+      case 'A': {
+        const rx = readNumber();
+        const ry = readNumber();
+        const rotation = readNumber();
+        const largeArc = readFlag();
+        const sweep = readFlag();
+        const end = offset(readNumber(), readNumber());
+        flattenSvgArc(current, end, rx, ry, rotation, largeArc, sweep).forEach(lineTo);
+        break;
+      }
+      case 'Z': {
+        if (subpathOpen) subpaths[subpaths.length - 1].closed = true;
+        subpathOpen = false;
+        current = subpathStart;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported SVG path command "${command}".`);
+    }
+
+    // Only consecutive curves of the same family reuse the previous control point
+    lastControl = control;
+  }
+
+  return subpaths;
+};
+
+// Parse an SVG transform attribute into a matrix [a, b, c, d, e, f]
+export const parseSvgTransform = (transform: string): number[] => {
+  const multiply = (m: number[], n: number[]) => [
+    m[0] * n[0] + m[2] * n[1], m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3], m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4], m[1] * n[4] + m[3] * n[5] + m[5]
+  ];
+  let matrix = [1, 0, 0, 1, 0, 0];
+
+  for (const [, name, args] of transform.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+    const v = args.split(/[\s,]+/).filter(Boolean).map(parseFloat);
+    const angle = ((v[0] ?? 0) * Math.PI) / 180;
+    let step: number[];
+    switch (name) {
+      case 'matrix':
+        step = v;
+        break;
+      case 'translate':
+        step = [1, 0, 0, 1, v[0] ?? 0, v[1] ?? 0];
+        break;
+      case 'scale':
+        step = [v[0] ?? 1, 0, 0, v[1] ?? v[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const [cx, cy] = [v[1] ?? 0, v[2] ?? 0];
+        step = multiply(
+          multiply([1, 0, 0, 1, cx, cy], [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0]),
+          [1, 0, 0, 1, -cx, -cy]
+        );
+        break;
+      }
+      case 'skewX':
+        step = [1, 0, Math.tan(angle), 1, 0, 0];
+        break;
+      case 'skewY':
+        step = [1, Math.tan(angle), 0, 1, 0, 0];
+        break;
+      default:
+        step = [1, 0, 0, 1, 0, 0];
+    }
+    matrix = multiply(matrix, step);
+  }
+
+  return matrix;
+};
+
+// Read the first closed <path> or <polygon> of an SVG, in millimeters.
+// Takes the parsed <svg> element and its <path> and <polygon> elements in document order,
+// so parsing the markup stays with the caller.
+export const parseSvgOutline = (svg: SvgElement, elements: SvgElement[]): Point[] => {
+  // Work out the physical size of one user unit
+  const parseLength = (value: string | null): { value: number; mm: number } | null => {
+    const match = value ? /^\s*([-+]?[\d.]+(?:e[-+]?\d+)?)\s*([a-z]*)\s*$/i.exec(value) : null;
+    if (!match || !(match[2].toLowerCase() in SVG_UNITS_MM)) return null;
+    return { value: parseFloat(match[1]), mm: parseFloat(match[1]) * SVG_UNITS_MM[match[2].toLowerCase()] };
+  };
+  const viewBox = svg.getAttribute('viewBox')?.split(/[\s,]+/).map(parseFloat);
+  const width = parseLength(svg.getAttribute('width'));
+  const mmPerUnit = viewBox && viewBox.length === 4 && width && viewBox[2] > 0
+    ? width.mm / viewBox[2]
+    : SVG_UNITS_MM.px;
+
+  for (const element of elements) {
+    let outline: Point[] | undefined;
+    if (element.tagName.toLowerCase() === 'polygon') {
+      const values = (element.getAttribute('points') ?? '').split(/[\s,]+/).filter(Boolean).map(parseFloat);
+      outline = [];
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        outline.push({ x: values[i], y: values[i + 1] });
+      }
+    } else {
+      outline = parseSvgPath(element.getAttribute('d') ?? '').find(subpath => subpath.closed)?.points;
+    }
+    if (!outline || outline.length < 3) continue;
+
+    // Apply the transforms of the element and its ancestors
+    let node: SvgElement | null = element;
+    while (node && node !== svg.parentElement) {
+      const transform = node.getAttribute('transform');
+      if (transform) {
+        const [a, b, c, d, e, f] = parseSvgTransform(transform);
+        outline = outline.map(point => ({ x: a * point.x + c * point.y + e, y: b * point.x + d * point.y + f }));
+      }
+      node = node.parentElement;
+    }
+
+    return outline.map(point => ({ x: point.x * mmPerUnit, y: point.y * mmPerUnit }));
+  }
+
+  throw new Error('The SVG does not contain a closed <path> or <polygon>.');
+};
+
+// Helper function to sample a DXF bulge arc between two vertices, excluding its start point
+const flattenBulge = (start: Point, end: Point, bulge: number): Point[] => {
+  if (Math.abs(bulge) < 1e-9) return [end];
+
+  const { center, radius, startAngle, sweepAngle } = getBulgeArc(start, end, bulge);
+
+  const segments = Math.max(2, Math.ceil(Math.abs(sweepAngle) / (Math.PI / 16)));
+  const result: Point[] = [];
+  for (let i = 1; i <= segments; i++) {
+    const angle = startAngle + (sweepAngle * i) / segments;
+    result.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+  }
+  result[result.length - 1] = end;
+  return result;
+};
+
+// Read the largest closed outline of a DXF file, in millimeters.
+// Closed LWPOLYLINE and POLYLINE entities are used directly; LINE entities are chained into loops.
+export const parseDxfOutline = (text: string): Point[] => {
+  const lines = text.split(/\r?\n/);
+  const pairs: [number, string][] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    pairs.push([parseInt(lines[i].trim()), lines[i + 1].trim()]);
+  }
+
+  // Drawing units from the header
+  let mmPerUnit = 1;
+  const unitsIndex = pairs.findIndex(([code, value]) => code === 9 && value === '$INSUNITS');
+  if (unitsIndex >= 0 && pairs[unitsIndex + 1]?.[0] === 70) {
+    mmPerUnit = DXF_UNITS_MM[parseInt(pairs[unitsIndex + 1][1])] ?? 1;
+  }
+
+  // Group the ENTITIES section into entities
+  const entities: { type: string; pairs: [number, string][] }[] = [];
+  const start = pairs.findIndex(([code, value], i) => code === 0 && value === 'SECTION' &&
+    pairs[i + 1]?.[0] === 2 && pairs[i + 1][1] === 'ENTITIES');
+  if (start < 0) throw new Error('The file is not a valid DXF drawing.');
+  for (let i = start + 2; i < pairs.length && !(pairs[i][0] === 0 && pairs[i][1] === 'ENDSEC'); i++) {
+    if (pairs[i][0] === 0) {
+      entities.push({ type: pairs[i][1], pairs: [] });
+    } else if (entities.length > 0) {
+      entities[entities.length - 1].pairs.push(pairs[i]);
+    }
+  }
+
+  // Helper function to turn vertices with bulges into a flattened closed outline
+  const flattenVertices = (vertices: { point: Point; bulge: number }[]): Point[] => {
+    const outline: Point[] = [vertices[0].point];
+    vertices.forEach((vertex, i) => {
+      const next = vertices[(i + 1) % vertices.length];
+      outline.push(...flattenBulge(vertex.point, next.point, vertex.bulge));
+    });
+    // The last segment returns to the first vertex
+    outline.pop();
+    return outline;
+  };
+  const isClosed = (flags: number, vertices: { point: Point }[]) => (flags & 1) === 1 ||
+    (vertices.length > 3 && Math.hypot(
+      vertices[0].point.x - vertices[vertices.length - 1].point.x,
+      vertices[0].point.y - vertices[vertices.length - 1].point.y
+    ) < 1e-9);
+
+  const outlines: Point[][] = [];
+  const segments: [Point, Point][] = [];
+  for (let i = 0; i < entities.length; i++) {
+    const entity = entities[i];
+    const flags = parseInt(entity.pairs.find(([code]) => code === 70)?.[1] ?? '0');
+
+    if (entity.type === 'LWPOLYLINE') {
+      const vertices: { point: Point; bulge: number }[] = [];
+      entity.pairs.forEach(([code, value]) => {
+        if (code === 10) vertices.push({ point: { x: parseFloat(value), y: 0 }, bulge: 0 });
+        else if (code === 20 && vertices.length > 0) vertices[vertices.length - 1].point.y = parseFloat(value);
+        else if (code === 42 && vertices.length > 0) vertices[vertices.length - 1].bulge = parseFloat(value);
+      });
+      if (vertices.length >= 3 && isClosed(flags, vertices)) outlines.push(flattenVertices(vertices));
+    } else if (entity.type === 'POLYLINE') {
+      const vertices: { point: Point; bulge: number }[] = [];
+      while (entities[i + 1]?.type === 'VERTEX') {
+        const vertex = new Map(entities[++i].pairs);
+        vertices.push({
+          point: { x: parseFloat(vertex.get(10) ?? '0'), y: parseFloat(vertex.get(20) ?? '0') },
+          bulge: parseFloat(vertex.get(42) ?? '0')
+        });
+      }
+      if (vertices.length >= 3 && isClosed(flags, vertices)) outlines.push(flattenVertices(vertices));
+    } else if (entity.type === 'LINE') {
+      const values = new Map(entity.pairs);
+      segments.push([
+        { x: parseFloat(values.get(10) ?? '0'), y: parseFloat(values.get(20) ?? '0') },
+        { x: parseFloat(values.get(11) ?? '0'), y: parseFloat(values.get(21) ?? '0') }
+      ]);
+    }
+  }
+
+  // Chain lines end to end into closed loops
+  const tolerance = 1e-6 * Math.max(1, ...segments.flat().map(point => Math.max(Math.abs(point.x), Math.abs(point.y))));
+  const isNear = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y) <= tolerance;
+  const unused = new Set(segments.map((_, i) => i));
+  for (const first of segments.keys()) {
+    if (!unused.has(first)) continue;
+    unused.delete(first);
+    const loop = [segments[first][0], segments[first][1]];
+
+    while (!isNear(loop[loop.length - 1], loop[0])) {
+      const end = loop[loop.length - 1];
+      const next = Array.from(unused).find(i => isNear(segments[i][0], end) || isNear(segments[i][1], end));
+      if (next === undefined) break;
+      unused.delete(next);
+      loop.push(isNear(segments[next][0], end) ? segments[next][1] : segments[next][0]);
+    }
+
+    if (loop.length > 3 && isNear(loop[loop.length - 1], loop[0])) {
+      outlines.push(loop.slice(0, -1));
+    }
+  }
+
+  if (outlines.length === 0) {
+    throw new Error('The DXF does not contain a closed polyline or a closed chain of lines.');
+  }
+
+  // DXF y points up, the canvas y points down
+  const largest = outlines.reduce((best, outline) => {
+    const area = Math.abs(getSignedArea(outline.map(point => [point.x, point.y])));
+    return area > best.area ? { outline, area } : best;
+  }, { outline: outlines[0], area: -1 }).outline;
+  return largest.map(point => ({ x: point.x * mmPerUnit, y: -point.y * mmPerUnit }));
+};
+
+// Center an imported outline on the origin, wound the same way as the generated shapes
+export const normalizeOutline = (outline: Point[]): { outline: Point[]; width: number; height: number } => {
+  const cleaned = orientPolygon(cleanPolygon(outline.map(point => [point.x, point.y])));
+  if (cleaned.length < 3 || Math.abs(getSignedArea(cleaned)) < 1e-9) {
+    throw new Error('The outline is empty.');
+  }
+  const xs = cleaned.map(point => point[0]);
+  const ys = cleaned.map(point => point[1]);
+  const centerX = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const centerY = (Math.min(...ys) + Math.max(...ys)) / 2;
+
+  return {
+    outline: cleaned.map(([x, y]) => ({ x: x - centerX, y: y - centerY })),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys)
+  };
+};
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_DESIGN_PARAMETERS, checkDesignParameter, generateDesign, getDesignSize, getScaleFactor, isPointInShape } from './pattern';
+
+describe('generateDesign', () => {
+  it('gives the same points for the same parameters', () => {
+    const parameters = { ...DEFAULT_DESIGN_PARAMETERS, seed: 42, relaxIterations: 3 };
+    assert.deepEqual(generateDesign(parameters).points, generateDesign(parameters).points);
+  });
+
+  it('gives different points for different seeds', () => {
+    const first = generateDesign({ ...DEFAULT_DESIGN_PARAMETERS, seed: 1 });
+    const second = generateDesign({ ...DEFAULT_DESIGN_PARAMETERS, seed: 2 });
+    assert.notDeepEqual(first.points, second.points);
+  });
+
+  it('places the requested number of points inside the boundary', () => {
+    const design = generateDesign({ ...DEFAULT_DESIGN_PARAMETERS, numPoints: 40, seed: 7 });
+    assert.equal(design.points.length, 40);
+    assert.ok(design.points.every(point => isPointInShape(point, design)));
+  });
+
+  it('keeps points out of keep-out zones', () => {
+    const design = generateDesign({
+      ...DEFAULT_DESIGN_PARAMETERS,
+      numPoints: 60,
+      keepOuts: [{ id: 1, shape: 'circle', x: 0, y: 0, width: 60, height: 60, outline: null }]
+    });
+    assert.ok(design.points.length > 0);
+    assert.ok(design.points.every(point => isPointInShape(point, design)));
+  });
+});
+
+describe('getDesignSize', () => {
+  it('follows the document aspect only without a boundary', () => {
+    assert.deepEqual(getDesignSize({ useCustomShape: false, documentAspect: 2 }), { width: 800, height: 400 });
+    assert.deepEqual(getDesignSize({ useCustomShape: true, documentAspect: 2 }), { width: 800, height: 600 });
+  });
+
+  it('keeps the aspect in range', () => {
+    assert.deepEqual(getDesignSize({ useCustomShape: false, documentAspect: 0 }), { width: 800, height: 3200 });
+  });
+
+  it('places points over the whole document', () => {
+    const design = generateDesign({ ...DEFAULT_DESIGN_PARAMETERS, useCustomShape: false, documentAspect: 0.5, seed: 5 });
+    assert.ok(design.points.some(point => point.y > 1200));
+    assert.ok(design.points.every(point => point.y >= 0 && point.y <= 1600));
+  });
+});
+
+describe('generateSeedPoints', () => {
+  it('spreads a Poisson-disk point budget over the whole boundary', () => {
+    const design = generateDesign({ ...DEFAULT_DESIGN_PARAMETERS, distribution: 'poisson', numPoints: 25, seed: 1 });
+    assert.equal(design.points.length, 25);
+
+    // The points should reach most of the way across the boundary in both directions
+    const extent = (values: number[]) => Math.max(...values) - Math.min(...values);
+    const vertices = design.boundary!.vertices;
+    assert.ok(extent(design.points.map(point => point.x)) > 0.7 * extent(vertices.map(vertex => vertex.x)));
+    assert.ok(extent(design.points.map(point => point.y)) > 0.7 * extent(vertices.map(vertex => vertex.y)));
+  });
+
+  it('keeps the minimum spacing of a Poisson-disk fill', () => {
+    const design = generateDesign({ ...DEFAULT_DESIGN_PARAMETERS, distribution: 'poisson', numPoints: 200, seed: 4 });
+    const minDistance = DEFAULT_DESIGN_PARAMETERS.minSpacingMM / getScaleFactor(design);
+    design.points.forEach((point, i) => design.points.slice(i + 1).forEach(other => {
+      assert.ok(Math.hypot(point.x - other.x, point.y - other.y) >= minDistance - 1e-9);
+    }));
+  });
+});
+
+describe('checkDesignParameter', () => {
+  it('checks values against the designer\'s ranges, naming the setting in errors', () => {
+    assert.throws(() => checkDesignParameter('--diameter', 'physicalWidthMM', 0), /^Error: --diameter must be between 10 and 2000/);
+    assert.throws(() => checkDesignParameter('sides', 'polygonSides', 4.5), /whole number/);
+    assert.equal(checkDesignParameter('--diameter', 'physicalWidthMM', 95), 95);
+  });
+
+  it('checks text options, outlines and keep-out zones', () => {
+    assert.throws(() => checkDesignParameter('join', 'borderJoin', 'square'), /must be one of miter, round, bevel/);
+    assert.throws(() => checkDesignParameter('outline', 'importedOutline', [{ x: 0, y: 0 }]), /at least three/);
+    assert.throws(() => checkDesignParameter('zones', 'keepOuts', [{ shape: 'circle', x: 0, y: 0, width: 5 }]), /zones\[0\]\.height/);
+    assert.equal(checkDesignParameter('outline', 'importedOutline', null), null);
+  });
+});
@@ -0,0 +1,1129 @@
+// Pattern generation: the boundary, the seed points and the Voronoi cells clipped to the boundary.
+// Everything is computed in the fixed design space and scaled to millimeters from the physical width.
+
+import { Delaunay, Voronoi } from 'd3-delaunay';
+import {
+  BorderJoin,
+  Point,
+  chainEdgesIntoLoops,
+  cleanPolygon,
+  createInsetPolygon,
+  createOutsetPolygon,
+  filterRegionEdges,
+  getInscribedDiameter,
+  getOutlineRadius,
+  getPolygonCentroid,
+  getRingsDistance,
+  getSignedArea,
+  getWindingNumber,
+  isPointInPolygon,
+  orientPolygon,
+  splitRingsIntoEdges
+} from './geometry';
+
+export type BoundaryShape = 'circle' | 'rectangle' | 'roundedRect' | 'oval' | 'hexagon' | 'polygon' | 'imported';
+
+export type KeepOutShape = 'circle' | 'rectangle' | 'polygon';
+
+// Area inside the boundary where no cells may exist, in millimeters relative to the boundary center
+export interface KeepOut {
+  id: number;
+  shape: KeepOutShape;
+  x: number;
+  y: number;
+  width: number; // Diameter for circles
+  height: number;
+  outline: Point[] | null; // Imported polygon, centered on the origin
+}
+
+// Limits of the material and cutter the design is made for, in millimeters
+export interface MaterialProfile {
+  minWebMM: number;
+  minHoleMM: number;
+  kerfMM: number;
+}
+
+export type ManufacturingIssue =
+  | { type: 'vanishedCell'; cell: number; region: number[][][] }
+  | { type: 'smallHole'; cell: number; region: number[][][]; size: number }
+  | { type: 'thinWeb'; cells: number[]; width: number; from: Point; to: Point };
+
+// How cells are colored when filled
+export type FillMode = 'none' | 'random' | 'area' | 'distance' | 'graph';
+
+// Fill palettes the designer offers
+export const BUILT_IN_PALETTES: { name: string; colors: string[] }[] = [
+  { name: 'Ocean', colors: ['#03045e', '#0077b6', '#00b4d8', '#90e0ef', '#caf0f8'] },
+  { name: 'Sunset', colors: ['#355070', '#6d597a', '#b56576', '#e56b6f', '#eaac8b'] },
+  { name: 'Forest', colors: ['#283618', '#606c38', '#dda15e', '#bc6c25', '#fefae0'] },
+  { name: 'Pastel', colors: ['#ffadad', '#ffd6a5', '#fdffb6', '#caffbf', '#9bf6ff', '#a0c4ff', '#bdb2ff'] },
+  { name: 'Grayscale', colors: ['#212529', '#495057', '#adb5bd', '#dee2e6', '#f8f9fa'] }
+];
+
+export type PointDistribution = 'blend' | 'poisson';
+
+export type DensityMode = 'uniform' | 'radial' | 'linear' | 'image';
+
+// Grayscale density map, one value per pixel from 0 (sparse) to 1 (dense)
+export interface DensityImage {
+  width: number;
+  height: number;
+  values: Float32Array;
+}
+
+// Fixed design space that points and the boundary are generated and stored in.
+// Displays and exports scale it, so the window size never changes the geometry.
+export const DESIGN_SIZE = { width: 800, height: 600 };
+
+// Size of a design's space. Boundaries are fitted into the fixed design space; without one the
+// whole space is the document, so its height follows the document aspect.
+export const getDesignSize = (
+  parameters: Pick<DesignParameters, 'useCustomShape' | 'documentAspect'>
+): { width: number; height: number } => {
+  if (parameters.useCustomShape) return DESIGN_SIZE;
+  const { min, max } = DESIGN_PARAMETER_RANGES.documentAspect;
+  return { width: DESIGN_SIZE.width, height: DESIGN_SIZE.width / Math.min(max, Math.max(min, parameters.documentAspect)) };
+};
+
+// Closed boundary outline. Width and height are the size of the shape before jaggedness is applied.
+export interface Boundary {
+  shape: BoundaryShape;
+  center: Point;
+  width: number;
+  height: number;
+  vertices: Point[];
+}
+
+// Settings a design is generated from. Lengths ending in MM are in millimeters, the rest in design units.
+export interface DesignParameters {
+  numPoints: number;
+  seed: number;
+  randomness: number; // 0 = grid-like, 100 = fully random
+  relaxIterations: number; // Lloyd relaxation steps applied after generation
+  distribution: PointDistribution;
+  minSpacingMM: number; // Minimum distance between Poisson-disk points
+  fillToSaturation: boolean; // Ignore the point budget for Poisson-disk sampling
+  densityMode: DensityMode;
+  densityStrength: number; // 0 = uniform, 100 = full contrast
+  densityAngle: number; // Direction of the linear gradient in degrees
+  densityInvert: boolean;
+  densityImage: DensityImage | null;
+  useCustomShape: boolean;
+  boundaryShape: BoundaryShape;
+  boundaryAspect: number; // Width / height for rectangles and ovals
+  cornerRadius: number; // Percent of the shorter side for rounded rectangles
+  polygonSides: number;
+  importedOutline: Point[] | null; // In millimeters, centered on the origin
+  boundarySeed: number;
+  jaggedness: number; // 0 = smooth outline, 80 = very jagged
+  jaggedPoints: number; // Number of points around the outline
+  keepOuts: KeepOut[];
+  keepOutMargin: number; // Solid web kept around each zone, in millimeters
+  borderOffset: number;
+  borderJoin: BorderJoin;
+  filletRadius: number; // Rounds the inset cell corners
+  physicalWidthMM: number; // Boundary width, or document width without a boundary
+  documentAspect: number; // Document width / height without a boundary
+}
+
+// Settings a new design starts from
+export const DEFAULT_DESIGN_PARAMETERS: DesignParameters = {
+  numPoints: 25,
+  seed: 1,
+  randomness: 65,
+  relaxIterations: 0,
+  distribution: 'blend',
+  minSpacingMM: 15,
+  fillToSaturation: false,
+  densityMode: 'uniform',
+  densityStrength: 70,
+  densityAngle: 0,
+  densityInvert: false,
+  densityImage: null,
+  useCustomShape: true,
+  boundaryShape: 'circle',
+  boundaryAspect: 1.5,
+  cornerRadius: 15,
+  polygonSides: 5,
+  importedOutline: null,
+  boundarySeed: 1,
+  jaggedness: 2.5,
+  jaggedPoints: 64,
+  keepOuts: [],
+  keepOutMargin: 0,
+  borderOffset: 8,
+  borderJoin: 'miter',
+  filletRadius: 0,
+  physicalWidthMM: 250,
+  documentAspect: 4 / 3
+};
+
+// Allowed values of a numeric design parameter
+export interface ParameterRange {
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+// Ranges of the numeric design parameters, shared by the designer's inputs and the batch generator
+export const DESIGN_PARAMETER_RANGES = {
+  numPoints: { min: 10, max: 200, integer: true },
+  randomness: { min: 0, max: 100 },
+  relaxIterations: { min: 0, max: 50, integer: true },
+  minSpacingMM: { min: 5, max: 60 },
+  densityStrength: { min: 0, max: 100 },
+  densityAngle: { min: 0, max: 359 },
+  boundaryAspect: { min: 0.5, max: 3 },
+  cornerRadius: { min: 0, max: 50 },
+  polygonSides: { min: 3, max: 12, integer: true },
+  boundarySeed: { min: 0, max: Number.MAX_SAFE_INTEGER, integer: true },
+  jaggedness: { min: 0, max: 80 },
+  jaggedPoints: { min: 8, max: 64, integer: true },
+  keepOutMargin: { min: 0, max: 50 },
+  borderOffset: { min: 2, max: 20 },
+  filletRadius: { min: 0, max: 20 },
+  physicalWidthMM: { min: 10, max: 2000 },
+  documentAspect: { min: 0.25, max: 4 }
+} satisfies Partial<Record<keyof DesignParameters, ParameterRange>>;
+
+// Values the text-valued design parameters can take
+export const DESIGN_PARAMETER_OPTIONS: Partial<Record<keyof DesignParameters, string[]>> = {
+  distribution: ['blend', 'poisson'] satisfies PointDistribution[],
+  densityMode: ['uniform', 'radial', 'linear', 'image'] satisfies DensityMode[],
+  boundaryShape: ['circle', 'rectangle', 'roundedRect', 'oval', 'hexagon', 'polygon', 'imported'] satisfies BoundaryShape[],
+  borderJoin: ['miter', 'round', 'bevel'] satisfies BorderJoin[]
+};
+const KEEP_OUT_SHAPES: KeepOutShape[] = ['circle', 'rectangle', 'polygon'];
+
+// Widest kerf the designer accepts, in millimeters
+export const MAX_KERF_MM = 2;
+
+// Check a number against a range, naming the setting as `name` in errors
+export const checkRange = (name: string, value: unknown, range: ParameterRange): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${name} must be a number.`);
+  }
+  if (value < range.min || value > range.max) {
+    throw new Error(`${name} must be between ${range.min} and ${range.max}, not ${value}.`);
+  }
+  if (range.integer && !Number.isInteger(value)) {
+    throw new Error(`${name} must be a whole number, not ${value}.`);
+  }
+  return value;
+};
+
+// Check that a value is a list of at least `minLength` { x, y } points
+export const isOutline = (value: unknown, minLength = 3): value is Point[] =>
+  Array.isArray(value) && value.length >= minLength && value.every(point =>
+    point && typeof point === 'object' && Number.isFinite(point.x) && Number.isFinite(point.y));
+
+// Check the value of a design parameter, naming it as `name` in errors.
+// Covers the values a preset or project file can hold; density images are checked by their reader.
+export const checkDesignParameter = (name: string, parameter: keyof DesignParameters, value: unknown): unknown => {
+  if (parameter in DESIGN_PARAMETER_RANGES) {
+    return checkRange(name, value, DESIGN_PARAMETER_RANGES[parameter as keyof typeof DESIGN_PARAMETER_RANGES]);
+  }
+
+  const options = DESIGN_PARAMETER_OPTIONS[parameter];
+  if (options) {
+    if (typeof value !== 'string' || !options.includes(value)) {
+      throw new Error(`${name} must be one of ${options.join(', ')}.`);
+    }
+  } else if (parameter === 'importedOutline') {
+    if (value !== null && !isOutline(value)) {
+      throw new Error(`${name} must be null or a list of at least three { "x", "y" } points.`);
+    }
+  } else if (parameter === 'keepOuts') {
+    if (!Array.isArray(value)) throw new Error(`${name} must be a list of keep-out zones.`);
+    value.forEach((keepOut, i) => {
+      const zone = `${name}[${i}]`;
+      if (!keepOut || typeof keepOut !== 'object' || !KEEP_OUT_SHAPES.includes(keepOut.shape)) {
+        throw new Error(`${zone} must have a shape of ${KEEP_OUT_SHAPES.join(', ')}.`);
+      }
+      ['x', 'y'].forEach(key => {
+        if (!Number.isFinite(keepOut[key])) throw new Error(`${zone}.${key} must be a number.`);
+      });
+      ['width', 'height'].forEach(key => {
+        if (!(keepOut[key] > 0)) throw new Error(`${zone}.${key} must be a positive number.`);
+      });
+      if (keepOut.shape === 'polygon' && !isOutline(keepOut.outline)) {
+        throw new Error(`${zone}.outline must be a list of at least three { "x", "y" } points.`);
+      }
+    });
+  } else if (typeof value !== typeof DEFAULT_DESIGN_PARAMETERS[parameter]) {
+    throw new Error(`${name} must be a ${typeof DEFAULT_DESIGN_PARAMETERS[parameter]}.`);
+  }
+  return value;
+};
+
+// Keep-out zones in design units: the outlines to cut, and the areas cells must avoid including the margin
+export interface KeepOutGeometry {
+  outlines: number[][][];
+  zones: number[][][];
+}
+
+// A design's seed points together with the geometry derived from its parameters
+export interface Design {
+  parameters: DesignParameters;
+  points: Point[];
+  boundary: Boundary | null;
+  keepOutGeometry: KeepOutGeometry;
+}
+
+// Everything but the points: the area points are placed in and cells are clipped to
+export type DesignShape = Omit<Design, 'points'>;
+
+// Voronoi cells clipped to the boundary, with the inset cells of the double border.
+// The regions arrays hold the rings of each point's cell, the flat arrays all rings.
+export interface ClippedCells {
+  cells: number[][][];
+  insetCells: number[][][];
+  cellRegions: number[][][][];
+  insetRegions: number[][][][];
+}
+
+// Seeded random number generator returning values from 0 up to 1
+export const seedFunction = (seed: number) => {
+  return function () {
+    seed = (seed * 9301 + 49297) % 233280;
+    return seed / 233280;
+  };
+}
+
+// Density field at a point, from a small minimum up to 1. Higher density gives smaller cells.
+export const getDensity = (point: Point, design: Pick<Design, 'parameters' | 'boundary'>): number => {
+  const { densityMode, densityStrength, densityAngle, densityInvert, densityImage } = design.parameters;
+  const { boundary } = design;
+  if (densityMode === 'uniform') return 1;
+
+  const size = getDesignSize(design.parameters);
+  let value = 1;
+  if (densityMode === 'radial') {
+    // Densest at the boundary center, fading out toward the boundary edge
+    const center = boundary
+      ? boundary.center
+      : { x: size.width / 2, y: size.height / 2 };
+    const radius = boundary
+      ? Math.max(boundary.width, boundary.height) / 2
+      : Math.hypot(size.width, size.height) / 2;
+    value = 1 - Math.min(1, Math.hypot(point.x - center.x, point.y - center.y) / radius);
+  } else if (densityMode === 'linear') {
+    // Densest along the design edge the gradient angle points at
+    const angle = (densityAngle * Math.PI) / 180;
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+    const halfExtent = (Math.abs(dx) * size.width + Math.abs(dy) * size.height) / 2;
+    const projection = (point.x - size.width / 2) * dx + (point.y - size.height / 2) * dy;
+    value = Math.max(0, Math.min(1, (projection / halfExtent + 1) / 2));
+  } else if (densityMode === 'image' && densityImage) {
+    // Fit the image inside the design space, keeping its aspect ratio
+    const scale = Math.min(size.width / densityImage.width, size.height / densityImage.height);
+    const left = (size.width - densityImage.width * scale) / 2;
+    const top = (size.height - densityImage.height * scale) / 2;
+    const col = Math.max(0, Math.min(densityImage.width - 1, Math.floor((point.x - left) / scale)));
+    const row = Math.max(0, Math.min(densityImage.height - 1, Math.floor((point.y - top) / scale)));
+    value = densityImage.values[row * densityImage.width + col];
+  }
+
+  if (densityInvert) value = 1 - value;
+
+  // Strength blends between a uniform field and the full map
+  return Math.max(0.02, 1 - (densityStrength / 100) * (1 - value));
+};
+
+// Generate random points with seeded randomization and controllable randomness
+const generateRandomPoints = (count: number, seedValue: number, design: DesignShape) => {
+  const { randomness, densityMode, useCustomShape } = design.parameters;
+  const { boundary } = design;
+  // Simple seeded random number generator
+  const seededRandom = seedFunction(seedValue);
+
+  const newPoints: Point[] = [];
+  const margin = 20;
+  const size = getDesignSize(design.parameters);
+  const effectiveWidth = size.width - 2 * margin;
+  const effectiveHeight = size.height - 2 * margin;
+  // Prevent infinite loops; density rejection needs more attempts
+  const maxAttempts = count * (densityMode === 'uniform' ? 10 : 50);
+  let attempts = 0;
+
+  // Start with a center point, unless it falls in a keep-out zone
+  const centerPoint: Point = {
+    x: boundary ? boundary.center.x : size.width / 2,
+    y: boundary ? boundary.center.y : size.height / 2
+  };
+  if (!useCustomShape || isPointInShape(centerPoint, design)) {
+    newPoints.push(centerPoint);
+  }
+
+  // Convert randomness (0-100) to factor (0-1)
+  const randomnessFactor = randomness / 100;
+
+  if (randomnessFactor < 0.1) {
+    // Very low randomness: Create a grid pattern with slight variations
+    const remainingCount = count - newPoints.length; // Subtract the center point we already added
+    const cols = Math.ceil(Math.sqrt(remainingCount * (effectiveWidth / effectiveHeight)));
+    const rows = Math.ceil(remainingCount / cols);
+    const cellWidth = effectiveWidth / cols;
+    const cellHeight = effectiveHeight / rows;
+
+    for (let i = 0; i < remainingCount && attempts < maxAttempts; attempts++) {
+      const col = i % cols;
+      const row = Math.floor(i / cols);
+
+      const baseX = margin + col * cellWidth + cellWidth / 2;
+      const baseY = margin + row * cellHeight + cellHeight / 2;
+
+      // Add small random variation
+      const variation = Math.min(cellWidth, cellHeight) * 0.2;
+      const point = {
+        x: baseX + (seededRandom() - 0.5) * variation,
+        y: baseY + (seededRandom() - 0.5) * variation
+      };
+
+      // Check if point is within bounds and custom shape
+      if (point.x >= margin && point.x <= size.width - margin &&
+        point.y >= margin && point.y <= size.height - margin &&
+        (!useCustomShape || isPointInShape(point, design))) {
+        newPoints.push(point);
+        i++;
+      }
+    }
+  } else {
+    // Higher randomness: Blend grid and random positioning
+    const remainingCount = count - newPoints.length; // Subtract the center point we already added
+    const cols = Math.ceil(Math.sqrt(remainingCount * (effectiveWidth / effectiveHeight)));
+    const rows = Math.ceil(remainingCount / cols);
+    const cellWidth = effectiveWidth / cols;
+    const cellHeight = effectiveHeight / rows;
+
+    for (let i = 0; i < remainingCount && attempts < maxAttempts; attempts++) {
+      let point: Point;
+
+      if (seededRandom() < randomnessFactor) {
+        // Fully random placement
+        point = {
+          x: margin + seededRandom() * effectiveWidth,
+          y: margin + seededRandom() * effectiveHeight
+        };
+
+        // Rejection sampling against the density map
+        if (densityMode !== 'uniform' && seededRandom() >= getDensity(point, design)) {
+          continue;
+        }
+      } else {
+        // Grid-based with variation
+        const col = i % cols;
+        const row = Math.floor(i / cols);
+
+        const baseX = margin + col * cellWidth + cellWidth / 2;
+        const baseY = margin + row * cellHeight + cellHeight / 2;
+
+        // Variable amount of deviation based on randomness
+        const maxDeviation = Math.min(cellWidth, cellHeight) * randomnessFactor;
+        point = {
+          x: baseX + (seededRandom() - 0.5) * maxDeviation,
+          y: baseY + (seededRandom() - 0.5) * maxDeviation
+        };
+      }
+
+      // Check if point is within bounds and custom shape
+      if (point.x >= margin && point.x <= size.width - margin &&
+        point.y >= margin && point.y <= size.height - margin &&
+        (!useCustomShape || isPointInShape(point, design))) {
+        newPoints.push(point);
+        i++;
+      }
+    }
+  }
+
+  return newPoints;
+};
+
+// Generate evenly spaced points with Poisson-disk sampling (Bridson's algorithm).
+// No two points are closer than `minDistance`; sampling stops when the area is saturated
+// or `maxCount` points have been placed, which leaves the points bunched around the first one.
+// With a density map the spacing grows where the density is low, so `minDistance` is only
+// reached in the densest areas.
+const generatePoissonDiskPoints = (minDistance: number, maxCount: number, seedValue: number, design: DesignShape) => {
+  const { densityMode, useCustomShape } = design.parameters;
+  const { boundary } = design;
+  const seededRandom = seedFunction(seedValue);
+
+  const newPoints: Point[] = [];
+  const margin = 20;
+  const candidatesPerPoint = 30;
+  const size = getDesignSize(design.parameters);
+
+  // Spacing scales with 1 / sqrt(density) so the number of points per area follows the density
+  const spacingAt = (point: Point) => minDistance / Math.sqrt(getDensity(point, design));
+  const maxSpacing = densityMode === 'uniform' ? minDistance : minDistance / Math.sqrt(0.02);
+
+  // Background grid sized so each cell holds at most one point
+  const cellSize = minDistance / Math.SQRT2;
+  const cols = Math.ceil(size.width / cellSize);
+  const rows = Math.ceil(size.height / cellSize);
+  const searchRadius = Math.ceil(maxSpacing / cellSize);
+  const grid: ({ point: Point; spacing: number } | null)[] = new Array(cols * rows).fill(null);
+  const gridIndex = (point: Point) =>
+    Math.floor(point.y / cellSize) * cols + Math.floor(point.x / cellSize);
+
+  const isValidCandidate = (point: Point, spacing: number): boolean => {
+    if (point.x < margin || point.x > size.width - margin ||
+      point.y < margin || point.y > size.height - margin ||
+      (useCustomShape && !isPointInShape(point, design))) {
+      return false;
+    }
+
+    const col = Math.floor(point.x / cellSize);
+    const row = Math.floor(point.y / cellSize);
+    for (let r = Math.max(0, row - searchRadius); r <= Math.min(rows - 1, row + searchRadius); r++) {
+      for (let c = Math.max(0, col - searchRadius); c <= Math.min(cols - 1, col + searchRadius); c++) {
+        const neighbour = grid[r * cols + c];
+        if (neighbour && Math.hypot(neighbour.point.x - point.x, neighbour.point.y - point.y) <
+          (spacing + neighbour.spacing) / 2) {
+          return false;
+        }
+      }
+    }
+    return true;
+  };
+
+  // Points that may still have room for neighbours
+  const active: { point: Point; spacing: number }[] = [];
+  const addPoint = (point: Point) => {
+    const entry = { point, spacing: spacingAt(point) };
+    newPoints.push(point);
+    grid[gridIndex(point)] = entry;
+    active.push(entry);
+  };
+
+  // Start with a center point, or a random one when the center falls in a keep-out zone
+  let firstPoint: Point = {
+    x: boundary ? boundary.center.x : size.width / 2,
+    y: boundary ? boundary.center.y : size.height / 2
+  };
+  for (let attempt = 0; attempt < 1000 && !isValidCandidate(firstPoint, spacingAt(firstPoint)); attempt++) {
+    firstPoint = {
+      x: margin + seededRandom() * (size.width - 2 * margin),
+      y: margin + seededRandom() * (size.height - 2 * margin)
+    };
+  }
+  if (isValidCandidate(firstPoint, spacingAt(firstPoint))) {
+    addPoint(firstPoint);
+  }
+
+  while (active.length > 0 && newPoints.length < maxCount) {
+    const activeIndex = Math.floor(seededRandom() * active.length);
+    const origin = active[activeIndex];
+    let placed = false;
+
+    // Try candidates in the annulus between one and two times the local spacing
+    for (let attempt = 0; attempt < candidatesPerPoint; attempt++) {
+      const angle = seededRandom() * 2 * Math.PI;
+      const radius = origin.spacing * (1 + seededRandom());
+      const candidate = {
+        x: origin.point.x + Math.cos(angle) * radius,
+        y: origin.point.y + Math.sin(angle) * radius
+      };
+
+      if (isValidCandidate(candidate, spacingAt(candidate))) {
+        addPoint(candidate);
+        placed = true;
+        break;
+      }
+    }
+
+    if (!placed) {
+      active.splice(activeIndex, 1);
+    }
+  }
+
+  return newPoints;
+};
+
+// Helper function to get the outline of a polygonal boundary shape, fitted to the given size
+const getShapeOutline = (
+  shape: BoundaryShape,
+  center: Point,
+  width: number,
+  height: number,
+  parameters: Pick<DesignParameters, 'cornerRadius' | 'polygonSides'>
+): Point[] => {
+  const { cornerRadius, polygonSides } = parameters;
+  if (shape === 'rectangle' || shape === 'roundedRect') {
+    const radius = shape === 'roundedRect' ? (cornerRadius / 100) * Math.min(width, height) : 0;
+    if (radius <= 0) {
+      return [
+        { x: center.x + width / 2, y: center.y + height / 2 },
+        { x: center.x - width / 2, y: center.y + height / 2 },
+        { x: center.x - width / 2, y: center.y - height / 2 },
+        { x: center.x + width / 2, y: center.y - height / 2 }
+      ];
+    }
+
+    // Quarter circle arcs at each corner, in the same direction as the other outlines
+    const cornerSegments = 8;
+    const outline: Point[] = [];
+    [[1, 1], [-1, 1], [-1, -1], [1, -1]].forEach(([sx, sy], corner) => {
+      const cornerCenter = {
+        x: center.x + sx * (width / 2 - radius),
+        y: center.y + sy * (height / 2 - radius)
+      };
+      for (let i = 0; i <= cornerSegments; i++) {
+        const angle = (corner * Math.PI) / 2 + (i / cornerSegments) * (Math.PI / 2);
+        outline.push({
+          x: cornerCenter.x + radius * Math.cos(angle),
+          y: cornerCenter.y + radius * Math.sin(angle)
+        });
+      }
+    });
+    return outline;
+  }
+
+  // Regular polygon with a flat bottom edge, scaled to fit the box
+  const sides = shape === 'hexagon' ? 6 : polygonSides;
+  const unit = Array.from({ length: sides }, (_, i) => {
+    const angle = Math.PI / 2 + Math.PI / sides + (i * 2 * Math.PI) / sides;
+    return { x: Math.cos(angle), y: Math.sin(angle) };
+  });
+  const xs = unit.map(point => point.x);
+  const ys = unit.map(point => point.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const scale = Math.min(width / (maxX - minX), height / (maxY - minY));
+  return unit.map(point => ({
+    x: center.x + (point.x - (minX + maxX) / 2) * scale,
+    y: center.y + (point.y - (minY + maxY) / 2) * scale
+  }));
+};
+
+// Helper function to generate a boundary shape, with optional jagged edges
+const generateBoundary = (
+  shape: BoundaryShape,
+  center: Point,
+  width: number,
+  height: number,
+  parameters: DesignParameters
+): Boundary => {
+  const { jaggedPoints: jaggedPointCount, jaggedness, boundarySeed: seedValue } = parameters;
+  // Simple seeded random number generator for consistent jagged patterns
+  const seededRandom = seedFunction(seedValue);
+  // Convert jaggedness from 0-80 scale to 0-0.8 scale for calculations
+  const jaggednessFactor = jaggedness / 100;
+  const angleStep = (2 * Math.PI) / jaggedPointCount;
+
+  // Sample directions around the center with the distance to the smooth or polygonal outline
+  let samples: { angle: number; radius: number }[];
+  if (shape === 'circle' || shape === 'oval') {
+    const a = width / 2;
+    const b = height / 2;
+    samples = Array.from({ length: jaggedPointCount }, (_, i) => {
+      const angle = i * angleStep;
+      return { angle, radius: (a * b) / Math.hypot(b * Math.cos(angle), a * Math.sin(angle)) };
+    });
+  } else {
+    const outline = getShapeOutline(shape, center, width, height, parameters);
+    // Regular polygons keep their proportions, so report the size they were fitted to
+    const xs = outline.map(point => point.x);
+    const ys = outline.map(point => point.y);
+    width = Math.max(...xs) - Math.min(...xs);
+    height = Math.max(...ys) - Math.min(...ys);
+
+    // Keep the corners, and add evenly spaced vertices for the jagged edge to move
+    const angles = outline.map(point => {
+      const angle = Math.atan2(point.y - center.y, point.x - center.x);
+      return angle < 0 ? angle + 2 * Math.PI : angle;
+    });
+    if (jaggednessFactor > 0) {
+      for (let i = 0; i < jaggedPointCount; i++) {
+        const angle = i * angleStep;
+        if (angles.every(existing => Math.abs(existing - angle) > 1e-6)) {
+          angles.push(angle);
+        }
+      }
+    }
+    samples = angles
+      .sort((a, b) => a - b)
+      .map(angle => ({ angle, radius: getOutlineRadius(outline, center, angle) }));
+  }
+
+  const vertices = samples.map(({ angle, radius }) => {
+    // Add random variation to the radius
+    const radiusVariation = (seededRandom() - 0.5) * 2 * jaggednessFactor * radius;
+    return {
+      x: center.x + (radius + radiusVariation) * Math.cos(angle),
+      y: center.y + (radius + radiusVariation) * Math.sin(angle)
+    };
+  });
+
+  return { shape, center, width, height, vertices };
+};
+
+// Build the boundary of a design, or null when it has none
+export const createBoundary = (parameters: DesignParameters): Boundary | null => {
+  const { useCustomShape, boundaryShape, boundaryAspect, importedOutline } = parameters;
+  if (!useCustomShape) return null;
+
+  // Always calculate exact center
+  const center = { x: DESIGN_SIZE.width / 2, y: DESIGN_SIZE.height / 2 };
+
+  // Imported outlines keep their exact shape, scaled to fit the design space
+  if (boundaryShape === 'imported') {
+    if (!importedOutline) return null;
+    const xs = importedOutline.map(point => point.x);
+    const ys = importedOutline.map(point => point.y);
+    const outlineWidth = Math.max(...xs) - Math.min(...xs);
+    const outlineHeight = Math.max(...ys) - Math.min(...ys);
+    const scale = Math.min(DESIGN_SIZE.width * 0.9 / outlineWidth, DESIGN_SIZE.height * 0.9 / outlineHeight);
+    return {
+      shape: boundaryShape,
+      center,
+      width: outlineWidth * scale,
+      height: outlineHeight * scale,
+      vertices: importedOutline.map(point => ({ x: center.x + point.x * scale, y: center.y + point.y * scale }))
+    };
+  }
+  // Use a slightly smaller size to ensure it fits well within the design space
+  let width = Math.min(DESIGN_SIZE.width, DESIGN_SIZE.height) * 0.9;
+  let height = width;
+  if (boundaryShape === 'rectangle' || boundaryShape === 'roundedRect' || boundaryShape === 'oval') {
+    width = Math.min(DESIGN_SIZE.width * 0.9, DESIGN_SIZE.height * 0.9 * boundaryAspect);
+    height = width / boundaryAspect;
+  }
+
+  return generateBoundary(boundaryShape, center, width, height, parameters);
+};
+
+// Calculate scale factor to convert design units to millimeters
+// Scale based on the boundary width if it exists, otherwise on the whole document
+export const getScaleFactor = (design: Pick<Design, 'parameters' | 'boundary'>): number => {
+  const { physicalWidthMM } = design.parameters;
+  if (design.boundary) {
+    return physicalWidthMM / design.boundary.width;
+  }
+  return physicalWidthMM / DESIGN_SIZE.width;
+};
+
+// Place the keep-out zones of a design inside its boundary
+export const createKeepOutGeometry = (boundary: Boundary | null, parameters: DesignParameters): KeepOutGeometry => {
+  const { keepOuts, keepOutMargin, physicalWidthMM } = parameters;
+  if (!boundary || keepOuts.length === 0) return { outlines: [], zones: [] };
+
+  const unitsPerMM = boundary.width / physicalWidthMM;
+  const outlines = keepOuts.map(keepOut => {
+    let shape: Point[];
+    if (keepOut.shape === 'circle') {
+      const segments = 64;
+      shape = Array.from({ length: segments }, (_, i) => ({
+        x: (keepOut.width / 2) * Math.cos((i * 2 * Math.PI) / segments),
+        y: (keepOut.width / 2) * Math.sin((i * 2 * Math.PI) / segments)
+      }));
+    } else if (keepOut.shape === 'rectangle') {
+      shape = [
+        { x: keepOut.width / 2, y: keepOut.height / 2 },
+        { x: -keepOut.width / 2, y: keepOut.height / 2 },
+        { x: -keepOut.width / 2, y: -keepOut.height / 2 },
+        { x: keepOut.width / 2, y: -keepOut.height / 2 }
+      ];
+    } else {
+      shape = keepOut.outline ?? [];
+    }
+
+    return orientPolygon(shape.map(point => [
+      boundary.center.x + (keepOut.x + point.x) * unitsPerMM,
+      boundary.center.y + (keepOut.y + point.y) * unitsPerMM
+    ]));
+  }).filter(outline => outline.length >= 3);
+
+  const zones = keepOutMargin > 0
+    ? outlines.flatMap(outline => createOutsetPolygon(outline, keepOutMargin * unitsPerMM, 'round'))
+    : outlines;
+
+  return { outlines, zones };
+};
+
+// Helper function to check if point is inside the boundary and outside every keep-out zone
+export const isPointInShape = (point: Point, design: DesignShape): boolean => {
+  if (design.boundary) {
+    return isPointInPolygon(point, design.boundary.vertices) &&
+      design.keepOutGeometry.zones.every(zone => getWindingNumber([point.x, point.y], zone) === 0);
+  }
+  return true;
+};
+
+// Helper function to get the boundary outline as a polygon
+export const getBoundaryPolygon = (design: Pick<Design, 'boundary'>): number[][] | null => {
+  if (!design.boundary) return null;
+  return design.boundary.vertices.map(point => [point.x, point.y]);
+};
+
+// Helper function to clip a polygon to the boundary and around the keep-out zones.
+// Returns the closed pieces of the polygon that lie inside the boundary; where a piece
+// meets the boundary its outline follows the boundary edge. A keep-out zone that lies
+// completely inside the polygon is returned as a negatively wound hole ring.
+export const clipPolygonToShape = (polygon: number[][], design: DesignShape): number[][][] => {
+  const cleaned = cleanPolygon(polygon);
+  if (cleaned.length < 3 || Math.abs(getSignedArea(cleaned)) < 1e-9) return [];
+
+  const subject = orientPolygon(cleaned);
+  const boundaryPolygon = getBoundaryPolygon(design);
+  if (!boundaryPolygon) return [subject];
+
+  const boundary = orientPolygon(boundaryPolygon);
+  const xs = subject.map(point => point[0]);
+  const ys = subject.map(point => point[1]);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const isNearSubject = (ring: number[][]) => ring.some((start, i) => {
+    const end = ring[(i + 1) % ring.length];
+    return Math.max(start[0], end[0]) >= minX && Math.min(start[0], end[0]) <= maxX &&
+      Math.max(start[1], end[1]) >= minY && Math.min(start[1], end[1]) <= maxY;
+  });
+  const zones = design.keepOutGeometry.zones.filter(isNearSubject);
+
+  // Without any boundary or keep-out edge near the polygon it is either completely inside or completely outside
+  if (!isNearSubject(boundary) && zones.length === 0) {
+    return getWindingNumber(subject[0], boundary) !== 0 && design.keepOutGeometry.zones.every(zone =>
+      getWindingNumber(subject[0], zone) === 0) ? [subject] : [];
+  }
+
+  const isInsideAll = (point: number[]) =>
+    getWindingNumber(point, subject) !== 0 && getWindingNumber(point, boundary) !== 0 &&
+    zones.every(zone => getWindingNumber(point, zone) === 0);
+  const edges = filterRegionEdges(splitRingsIntoEdges([subject, boundary, ...zones]), isInsideAll);
+
+  return chainEdgesIntoLoops(edges)
+    .map(loop => cleanPolygon(loop))
+    .filter(loop => loop.length >= 3 && Math.abs(getSignedArea(loop)) > 1e-9);
+};
+
+// Triangulate points and build their Voronoi diagram over the design space
+export const createDiagram = (
+  points: Point[],
+  size: { width: number; height: number }
+): { delaunay: Delaunay<Delaunay.Point>; voronoi: Voronoi<Delaunay.Point> } => {
+  const delaunay = Delaunay.from(points.map(p => [p.x, p.y]));
+  return { delaunay, voronoi: delaunay.voronoi([0, 0, size.width, size.height]) };
+};
+
+// Helper function to get each Voronoi cell clipped to the boundary, along with its inset cells.
+// The regions arrays hold the rings of each point's cell, so cells can be filled one by one.
+// Pass a kerf offset to shrink the inset cells further so the cut holes come out at their designed size.
+export const getClippedCells = (design: Design, voronoi: Voronoi<Delaunay.Point>, kerfOffset = 0): ClippedCells => {
+  const { borderOffset, borderJoin } = design.parameters;
+  const cellRegions: number[][][][] = [];
+  const insetRegions: number[][][][] = [];
+
+  for (let i = 0; i < design.points.length; i++) {
+    const cell = voronoi.cellPolygon(i);
+    if (cell && cell.length > 2) {
+      const region = clipPolygonToShape(cell, design);
+      const inset = createInsetPolygon(region, borderOffset, borderJoin);
+      cellRegions.push(region);
+      insetRegions.push(kerfOffset > 0 ? createInsetPolygon(inset, kerfOffset, borderJoin) : inset);
+    } else {
+      cellRegions.push([]);
+      insetRegions.push([]);
+    }
+  }
+
+  return { cells: cellRegions.flat(), insetCells: insetRegions.flat(), cellRegions, insetRegions };
+};
+
+// Pick one of `colorCount` palette colors for every cell, or -1 for cells without a region
+export const getCellColorIndices = (
+  design: Design,
+  delaunay: Delaunay<Delaunay.Point>,
+  cellRegions: number[][][][],
+  fillMode: FillMode,
+  colorCount: number
+): number[] => {
+  const { points, boundary } = design;
+
+  // Graded modes split the value range into one band per palette color
+  const gradeValues = (values: number[]): number[] => {
+    const present = values.filter((_, i) => cellRegions[i].length > 0);
+    const min = Math.min(...present);
+    const range = Math.max(...present) - min || 1;
+    return values.map((value, i) => cellRegions[i].length === 0
+      ? -1
+      : Math.min(colorCount - 1, Math.floor(((value - min) / range) * colorCount)));
+  };
+
+  if (fillMode === 'random') {
+    const random = seedFunction(design.parameters.seed);
+    return cellRegions.map(region => {
+      const index = Math.floor(random() * colorCount);
+      return region.length === 0 ? -1 : index;
+    });
+  }
+
+  if (fillMode === 'area') {
+    return gradeValues(cellRegions.map(region =>
+      region.reduce((sum, ring) => sum + getSignedArea(ring), 0)));
+  }
+
+  if (fillMode === 'distance') {
+    const size = getDesignSize(design.parameters);
+    const center = boundary ? boundary.center : { x: size.width / 2, y: size.height / 2 };
+    return gradeValues(points.map(point => Math.hypot(point.x - center.x, point.y - center.y)));
+  }
+
+  // Graph coloring: greedily color in smallest-last order, which needs at most 6 colors
+  // for the planar neighbor graph. Smaller palettes wrap around and may repeat on neighbors.
+  const neighbors = points.map((_, i) => Array.from(delaunay.neighbors(i)));
+  const degrees = neighbors.map(list => list.length);
+  const removed = new Array(points.length).fill(false);
+  const order: number[] = [];
+  for (let step = 0; step < points.length; step++) {
+    let next = -1;
+    degrees.forEach((degree, i) => {
+      if (!removed[i] && (next === -1 || degree < degrees[next])) next = i;
+    });
+    removed[next] = true;
+    order.push(next);
+    neighbors[next].forEach(j => degrees[j]--);
+  }
+
+  const colors = new Array(points.length).fill(-1);
+  order.reverse().forEach(i => {
+    const used = new Set(neighbors[i].map(j => colors[j]));
+    let color = 0;
+    while (used.has(color)) color++;
+    colors[i] = color;
+  });
+  return colors.map((color, i) => cellRegions[i].length === 0 ? -1 : color % colorCount);
+};
+
+// Kerf compensation in design units: the beam removes half the kerf on either side of the cut line
+export const getKerfOffset = (design: Pick<Design, 'parameters' | 'boundary'>, kerfMM: number): number =>
+  kerfMM > 0 ? kerfMM / 2 / getScaleFactor(design) : 0;
+
+// Helper function to get the boundary cut path, grown outward by the kerf offset so the part keeps its size
+export const getBoundaryCutPath = (design: Pick<Design, 'boundary'>, kerfOffset = 0): number[][][] => {
+  const boundaryPolygon = getBoundaryPolygon(design);
+  if (!boundaryPolygon) return [];
+  return kerfOffset > 0 ? createOutsetPolygon(boundaryPolygon, kerfOffset, 'round') : [boundaryPolygon];
+};
+
+// Helper function to get the keep-out cut paths. Keep-outs are cut out like the cells, so their
+// paths move into the hole by the kerf or tool offset and the holes keep their size.
+export const getKeepOutCutPaths = (design: Pick<Design, 'parameters' | 'keepOutGeometry'>, kerfOffset = 0): number[][][] => {
+  const { outlines } = design.keepOutGeometry;
+  if (kerfOffset <= 0) return outlines;
+  return outlines.flatMap(outline => createInsetPolygon([orientPolygon(outline)], kerfOffset, design.parameters.borderJoin));
+};
+
+// Helper function to get each Delaunay triangle clipped to the boundary
+export const getClippedTriangles = (design: Design, delaunay: Delaunay<Delaunay.Point>): number[][][] => {
+  const { points } = design;
+  const triangles: number[][][] = [];
+
+  for (let i = 0; i < delaunay.triangles.length; i += 3) {
+    const triangle = [
+      points[delaunay.triangles[i]],
+      points[delaunay.triangles[i + 1]],
+      points[delaunay.triangles[i + 2]]
+    ].map(point => [point.x, point.y]);
+    triangles.push(...clipPolygonToShape(triangle, design));
+  }
+
+  return triangles;
+};
+
+// Check the cut geometry against the material profile.
+// Inset cells are the cutouts: they must not vanish, must be at least the minimum hole size,
+// and the webs left between them and along the outer contours must stay wide enough after the kerf.
+// With kerf compensation the exports move the cuts, so the kerf takes nothing off the webs.
+export const checkManufacturability = (
+  design: Design,
+  materialProfile: MaterialProfile,
+  kerfCompensation: boolean
+): ManufacturingIssue[] => {
+  const { points } = design;
+  const { borderOffset, borderJoin } = design.parameters;
+  if (points.length < 2) return [];
+
+  const scaleFactor = getScaleFactor(design);
+  const { delaunay, voronoi } = createDiagram(points, getDesignSize(design.parameters));
+  const issues: ManufacturingIssue[] = [];
+
+  // Cut contours every cutout has to keep its distance from
+  const boundaryPolygon = getBoundaryPolygon(design);
+  const contours = [...(boundaryPolygon ? [orientPolygon(boundaryPolygon)] : []), ...design.keepOutGeometry.outlines];
+
+  const insets = points.map((_, i) => {
+    const cell = voronoi.cellPolygon(i);
+    if (!cell || cell.length < 3) return [];
+
+    const region = clipPolygonToShape(cell, design);
+    if (region.length === 0) return [];
+    const inset = createInsetPolygon(region, borderOffset, borderJoin);
+
+    if (inset.length === 0) {
+      issues.push({ type: 'vanishedCell', cell: i, region });
+    } else {
+      const size = Math.max(...inset.filter(ring => getSignedArea(ring) > 0).map(getInscribedDiameter)) * scaleFactor;
+      if (size < materialProfile.minHoleMM) {
+        issues.push({ type: 'smallHole', cell: i, region, size });
+      }
+    }
+    return inset;
+  });
+
+  // Kerf removes half its width from each side of a web, unless the exports compensate for it
+  const kerfLoss = kerfCompensation ? 0 : materialProfile.kerfMM;
+  const isTooThin = (distance: number) => distance * scaleFactor - kerfLoss < materialProfile.minWebMM;
+
+  insets.forEach((inset, i) => {
+    if (inset.length === 0) return;
+
+    for (const j of delaunay.neighbors(i)) {
+      if (j <= i || insets[j].length === 0) continue;
+      const { distance, from, to } = getRingsDistance(inset, insets[j]);
+      if (isTooThin(distance)) {
+        issues.push({ type: 'thinWeb', cells: [i, j], width: distance * scaleFactor, from, to });
+      }
+    }
+
+    if (contours.length > 0) {
+      const { distance, from, to } = getRingsDistance(inset, contours);
+      if (isTooThin(distance)) {
+        issues.push({ type: 'thinWeb', cells: [i], width: distance * scaleFactor, from, to });
+      }
+    }
+  });
+
+  return issues;
+};
+
+// Helper function to get the density-weighted mass and centroid of a polygon.
+// The polygon is fanned into triangles which are subdivided, and each small triangle is
+// weighted by the density at its centroid.
+const getWeightedCentroid = (polygon: number[][], design: DesignShape): { area: number; centroid: Point } => {
+  const subdivisions = 4;
+  let mass = 0;
+  let x = 0;
+  let y = 0;
+
+  for (let i = 1; i < polygon.length - 1; i++) {
+    const [a, b, c] = [polygon[0], polygon[i], polygon[i + 1]];
+    const abx = (b[0] - a[0]) / subdivisions, aby = (b[1] - a[1]) / subdivisions;
+    const acx = (c[0] - a[0]) / subdivisions, acy = (c[1] - a[1]) / subdivisions;
+    // Signed area of one sub-triangle; the fan stays correct for non-convex pieces
+    const subArea = (abx * acy - aby * acx) / 2;
+
+    for (let u = 0; u < subdivisions; u++) {
+      for (let v = 0; v < subdivisions - u; v++) {
+        // Upright sub-triangle, plus the inverted one next to it when it exists
+        const centroids = [[u + 1 / 3, v + 1 / 3]];
+        if (u + v < subdivisions - 1) centroids.push([u + 2 / 3, v + 2 / 3]);
+
+        for (const [cu, cv] of centroids) {
+          const point = { x: a[0] + cu * abx + cv * acx, y: a[1] + cu * aby + cv * acy };
+          const weight = subArea * getDensity(point, design);
+          mass += weight;
+          x += point.x * weight;
+          y += point.y * weight;
+        }
+      }
+    }
+  }
+
+  if (Math.abs(mass) < 1e-12) return getPolygonCentroid(polygon);
+  return { area: mass, centroid: { x: x / mass, y: y / mass } };
+};
+
+// Run one iteration of Lloyd's algorithm: move every point to the centroid of its cell inside the boundary.
+// With a density map the centroids are density-weighted, so cells shrink where the density is high.
+export const relaxPoints = (currentPoints: Point[], design: DesignShape): Point[] => {
+  if (currentPoints.length < 2) return currentPoints;
+
+  const { voronoi } = createDiagram(currentPoints, getDesignSize(design.parameters));
+
+  return currentPoints.map((point, i) => {
+    const cell = voronoi.cellPolygon(i);
+    if (!cell || cell.length < 3) return point;
+
+    // Area-weighted centroid over all pieces of the clipped cell; holes have negative area
+    let totalArea = 0;
+    let x = 0;
+    let y = 0;
+    for (const piece of clipPolygonToShape(cell, design)) {
+      const { area, centroid } = design.parameters.densityMode === 'uniform' ? getPolygonCentroid(piece) : getWeightedCentroid(piece, design);
+      totalArea += area;
+      x += centroid.x * area;
+      y += centroid.y * area;
+    }
+
+    if (totalArea <= 0) return point;
+    // A cell wrapped around a keep-out zone can have its centroid inside the zone
+    const centroid = { x: x / totalArea, y: y / totalArea };
+    return isPointInShape(centroid, design) ? centroid : point;
+  });
+};
+
+// Helper function to pick `count` points spread evenly over a saturated Poisson-disk fill.
+// Farthest-point sampling from the first point: each step takes the point farthest from those
+// already picked, measured in local spacings so the pick still follows the density map.
+const subsamplePoints = (candidates: Point[], count: number, design: Pick<Design, 'parameters' | 'boundary'>): Point[] => {
+  if (candidates.length <= count) return candidates;
+
+  const weights = candidates.map(point => Math.sqrt(getDensity(point, design)));
+  const distances = new Array(candidates.length).fill(Infinity);
+  const picked: Point[] = [];
+  let next = 0;
+  while (picked.length < count) {
+    const point = candidates[next];
+    picked.push(point);
+    distances[next] = -1;
+
+    next = -1;
+    candidates.forEach((candidate, i) => {
+      if (distances[i] < 0) return;
+      distances[i] = Math.min(distances[i], Math.hypot(candidate.x - point.x, candidate.y - point.y) * weights[i]);
+      if (next < 0 || distances[i] > distances[next]) next = i;
+    });
+  }
+
+  return picked;
+};
+
+// Place the seed points of a design, before any relaxation
+export const generateSeedPoints = (design: DesignShape): Point[] => {
+  const { numPoints, seed, distribution, minSpacingMM, fillToSaturation } = design.parameters;
+  if (distribution !== 'poisson') return generateRandomPoints(numPoints, seed, design);
+
+  // Keeps saturated Poisson-disk fills with a small spacing responsive
+  const maxSaturatedPoints = 3000;
+
+  // Poisson-disk spacing is set in millimeters, so convert it to design units
+  const minDistance = minSpacingMM / getScaleFactor(design);
+  if (fillToSaturation) {
+    return generatePoissonDiskPoints(minDistance, maxSaturatedPoints, seed, design);
+  }
+
+  // Sampling stops growing outward from the first point once the cap is reached, so fill the
+  // whole shape first and then thin it out evenly to the point budget. The spacing is raised
+  // where needed so the saturated fill stays well below the cap.
+  const boundaryPolygon = getBoundaryPolygon(design);
+  const size = getDesignSize(design.parameters);
+  const area = design.parameters.useCustomShape && boundaryPolygon
+    ? Math.abs(getSignedArea(boundaryPolygon))
+    : (size.width - 40) * (size.height - 40);
+  const samplingDistance = Math.max(minDistance, Math.sqrt((2 * area) / maxSaturatedPoints));
+  const saturated = generatePoissonDiskPoints(samplingDistance, maxSaturatedPoints, seed, design);
+  return subsamplePoints(saturated, numPoints, design);
+};
+
+// Generate a complete design from its parameters.
+// Relaxation is deterministic, so the same parameters always give the same design.
+export const generateDesign = (parameters: DesignParameters): Design => {
+  const boundary = createBoundary(parameters);
+  const shape: DesignShape = { parameters, boundary, keepOutGeometry: createKeepOutGeometry(boundary, parameters) };
+
+  let points = generateSeedPoints(shape);
+  for (let i = 0; i < parameters.relaxIterations; i++) {
+    points = relaxPoints(points, shape);
+  }
+  return { ...shape, points };
+};
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_GCODE_SETTINGS } from './export';
+import { PROJECT_FORMAT, PROJECT_VERSION, ProjectFile, getProjectDesignParameters, parseProjectFile } from './project';
+
+// Helper function to build a project as the designer saves it
+const createProject = (): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  canvas: { width: 800, height: 600 },
+  points: [{ x: 400, y: 300 }, { x: 200, y: 150 }],
+  boundary: {
+    enabled: true,
+    shape: 'circle',
+    aspect: 1.5,
+    cornerRadius: 15,
+    sides: 5,
+    imported: null,
+    vertices: [],
+    seed: 1,
+    jaggedness: 2.5,
+    jaggedPoints: 64
+  },
+  generation: {
+    numPoints: 25,
+    seed: 1,
+    randomness: 65,
+    relaxIterations: 0,
+    distribution: 'blend',
+    minSpacingMM: 15,
+    fillToSaturation: false,
+    density: { mode: 'uniform', strength: 70, angle: 0, invert: false, image: { width: 2, height: 2, data: 'AH//gA==' } }
+  },
+  keepOuts: { margin: 0, zones: [{ id: 1, shape: 'circle', x: 0, y: 0, width: 10, height: 10, outline: null }] },
+  border: { offset: 8, join: 'miter', filletRadius: 0 },
+  display: {
+    showPoints: false,
+    showVoronoi: true,
+    showDelaunay: false,
+    showDoubleBorder: true,
+    strokeWidth: 1,
+    fill: { mode: 'none', palette: ['#ffffff'] }
+  },
+  export: {
+    voronoi: true,
+    delaunay: false,
+    points: false,
+    doubleBorder: true,
+    boundary: true,
+    keepOuts: true,
+    kerfCompensation: false,
+    fills: true,
+    png: { dpi: 300, transparent: false, background: '#ffffff' },
+    gcode: { ...DEFAULT_GCODE_SETTINGS }
+  },
+  physical: { widthMM: 250, aspect: 1, unit: 'mm' },
+  material: { minWebMM: 2, minHoleMM: 3, kerfMM: 0.15 }
+});
+
+// Helper function to write a project with changed values, given as dotted paths; undefined removes a value
+const writeProject = (changes: Record<string, unknown>): string => {
+  const data = JSON.parse(JSON.stringify(createProject()));
+  for (const [path, value] of Object.entries(changes)) {
+    const keys = path.split('.');
+    const parent = keys.slice(0, -1).reduce((target, key) => target[key], data);
+    parent[keys[keys.length - 1]] = value;
+  }
+  return JSON.stringify(data);
+};
+
+describe('parseProjectFile', () => {
+  it('reads a project saved by the designer', () => {
+    const project = parseProjectFile(JSON.stringify(createProject()));
+    const parameters = getProjectDesignParameters(project);
+    assert.equal(parameters.numPoints, 25);
+    assert.equal(parameters.keepOuts.length, 1);
+    assert.equal(parameters.documentAspect, 1);
+    assert.deepEqual(Array.from(parameters.densityImage!.values, value => Math.round(value * 255)), [0, 127, 255, 128]);
+  });
+
+  it('rejects files that are not projects', () => {
+    assert.throws(() => parseProjectFile('{ nope'), /not valid JSON/);
+    assert.throws(() => parseProjectFile('{ "format": "other" }'), /not a Voronoi Designer project/);
+    assert.throws(() => parseProjectFile(writeProject({ version: PROJECT_VERSION + 1 })), /newer version/);
+  });
+
+  it('rejects missing sections', () => {
+    for (const section of ['display', 'export', 'keepOuts', 'material']) {
+      assert.throws(() => parseProjectFile(writeProject({ [section]: undefined })), new RegExp(`invalid\\. ${section} is missing`));
+    }
+  });
+
+  it('rejects values the designer could not have saved', () => {
+    const cases: [Record<string, unknown>, RegExp][] = [
+      [{ points: [{ x: 1 }] }, /points must be a list/],
+      [{ 'boundary.aspect': 9 }, /boundary\.aspect must be between 0\.5 and 3/],
+      [{ 'generation.density.image.data': 'AAAA' }, /one base64-encoded byte per pixel/],
+      [{ 'keepOuts.zones.0.id': 'a' }, /keepOuts\.zones\[0\]\.id must be a number/],
+      [{ 'display.fill.mode': 'gradient' }, /display\.fill\.mode must be one of/],
+      [{ 'export.png': null }, /export\.png is missing/],
+      [{ 'export.gcode.passes': 2.5 }, /export\.gcode\.passes must be a whole number/],
+      [{ 'physical.unit': 'cm' }, /physical\.unit must be one of mm, in/],
+      [{ 'physical.aspect': 10 }, /physical\.aspect must be between 0\.25 and 4/],
+      [{ 'material.kerfMM': -1 }, /material\.kerfMM must be between 0 and 2/]
+    ];
+    for (const [changes, error] of cases) {
+      assert.throws(() => parseProjectFile(writeProject(changes)), error);
+    }
+  });
+
+  it('upgrades older versions before checking them', () => {
+    const upgraded = parseProjectFile(writeProject({
+      version: 7,
+      'physical.unit': undefined,
+      'display.fill': undefined,
+      'export.png': undefined,
+      'export.gcode': undefined
+    }));
+    assert.equal(upgraded.physical.unit, 'mm');
+    assert.equal(upgraded.physical.aspect, 4 / 3);
+    assert.deepEqual(upgraded.export.gcode, DEFAULT_GCODE_SETTINGS);
+  });
+});
@@ -0,0 +1,380 @@
+// Saved project documents (.voronoi.json): the schema, upgrades from older versions and parsing.
+// Shared by the designer and the batch generator.
+
+import { BorderJoin, Point } from './geometry';
+import {
+  BUILT_IN_PALETTES,
+  BoundaryShape,
+  DensityImage,
+  DensityMode,
+  DesignParameters,
+  FillMode,
+  KeepOut,
+  MAX_KERF_MM,
+  MaterialProfile,
+  PointDistribution,
+  checkDesignParameter,
+  checkRange,
+  isOutline
+} from './pattern';
+import { DEFAULT_GCODE_SETTINGS, DOCUMENT_UNITS, DocumentUnit, GCodeSettings } from './export';
+
+// Saved project document (.voronoi.json)
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  // Canvas size the points and boundary vertices were stored in
+  canvas: { width: number; height: number };
+  points: Point[];
+  boundary: {
+    enabled: boolean;
+    shape: BoundaryShape;
+    aspect: number;
+    cornerRadius: number;
+    sides: number;
+    // Imported outline in millimeters, centered on the origin
+    imported: Point[] | null;
+    vertices: Point[];
+    seed: number;
+    jaggedness: number;
+    jaggedPoints: number;
+  };
+  generation: {
+    numPoints: number;
+    seed: number;
+    randomness: number;
+    relaxIterations: number;
+    distribution: PointDistribution;
+    minSpacingMM: number;
+    fillToSaturation: boolean;
+    density: {
+      mode: DensityMode;
+      strength: number;
+      angle: number;
+      invert: boolean;
+      // Base64-encoded 8-bit grayscale values
+      image: { width: number; height: number; data: string } | null;
+    };
+  };
+  keepOuts: { margin: number; zones: KeepOut[] };
+  border: { offset: number; join: BorderJoin; filletRadius: number };
+  display: {
+    showPoints: boolean;
+    showVoronoi: boolean;
+    showDelaunay: boolean;
+    showDoubleBorder: boolean;
+    strokeWidth: number;
+    fill: { mode: FillMode; palette: string[] };
+  };
+  export: {
+    voronoi: boolean;
+    delaunay: boolean;
+    points: boolean;
+    doubleBorder: boolean;
+    boundary: boolean;
+    keepOuts: boolean;
+    kerfCompensation: boolean;
+    fills: boolean;
+    png: { dpi: number; transparent: boolean; background: string };
+    gcode: GCodeSettings;
+  };
+  // Width / height of the document without a boundary
+  physical: { widthMM: number; aspect: number; unit: DocumentUnit };
+  material: MaterialProfile;
+}
+
+export const PROJECT_FORMAT = 'voronoi-designer-project';
+export const PROJECT_VERSION = 12;
+
+// Upgrades a project document from the version in the key to the next version.
+// Add an entry here whenever PROJECT_VERSION is bumped.
+const PROJECT_MIGRATIONS: Record<number, (project: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 1 only had the jagged circle boundary, sized by its diameter
+  1: project => {
+    const boundary = project.boundary as Record<string, unknown>;
+    const physical = project.physical as { diameterMM: number };
+    return {
+      ...project,
+      boundary: {
+        enabled: boundary.enabled,
+        shape: 'circle',
+        aspect: 1.5,
+        cornerRadius: 15,
+        sides: 5,
+        vertices: boundary.vertices,
+        seed: boundary.seed,
+        jaggedness: boundary.jaggedness,
+        jaggedPoints: boundary.jaggedPoints
+      },
+      physical: { widthMM: physical.diameterMM }
+    };
+  },
+  // Version 2 had no imported outlines
+  2: project => ({
+    ...project,
+    boundary: { ...(project.boundary as Record<string, unknown>), imported: null }
+  }),
+  // Version 3 had no keep-out zones
+  3: project => ({
+    ...project,
+    keepOuts: { margin: 0, zones: [] },
+    export: { ...(project.export as Record<string, unknown>), keepOuts: true }
+  }),
+  // Version 4 had sharp inset corners
+  4: project => ({
+    ...project,
+    border: { ...(project.border as Record<string, unknown>), filletRadius: 0 }
+  }),
+  // Version 5 had no material profile
+  5: project => ({
+    ...project,
+    material: { minWebMM: 2, minHoleMM: 3, kerfMM: 0.15 }
+  }),
+  // Version 6 exported without kerf compensation
+  6: project => ({
+    ...project,
+    export: { ...(project.export as Record<string, unknown>), kerfCompensation: false }
+  }),
+  // Version 7 was always in millimeters
+  7: project => ({
+    ...project,
+    physical: { ...(project.physical as Record<string, unknown>), unit: 'mm' }
+  }),
+  // Version 8 only stroked cells
+  8: project => ({
+    ...project,
+    display: { ...(project.display as Record<string, unknown>), fill: { mode: 'none', palette: BUILT_IN_PALETTES[0].colors } },
+    export: { ...(project.export as Record<string, unknown>), fills: true }
+  }),
+  // Version 9 had no PNG export
+  9: project => ({
+    ...project,
+    export: { ...(project.export as Record<string, unknown>), png: { dpi: 300, transparent: false, background: '#ffffff' } }
+  }),
+  // Version 10 had no G-code export
+  10: project => ({
+    ...project,
+    export: { ...(project.export as Record<string, unknown>), gcode: DEFAULT_GCODE_SETTINGS }
+  }),
+  // Version 11 documents without a boundary were always 4:3
+  11: project => ({
+    ...project,
+    physical: { ...(project.physical as Record<string, unknown>), aspect: 4 / 3 }
+  })
+};
+
+// Helper function to read a section of a project document, naming it as `name` in errors
+const getSection = (name: string, value: unknown): Record<string, unknown> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${name} is missing.`);
+  }
+  return value as Record<string, unknown>;
+};
+
+// Helper function to check the type of a plain setting
+const checkType = (name: string, value: unknown, type: 'boolean' | 'number' | 'string') => {
+  if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+    throw new Error(`${name} must be a ${type}.`);
+  }
+};
+
+// Helper function to check a number that only has a lower limit
+const checkMinimum = (name: string, value: unknown, min: number) => {
+  checkType(name, value, 'number');
+  if ((value as number) < min) {
+    throw new Error(`${name} must be at least ${min}, not ${value}.`);
+  }
+};
+
+// Helper function to check a setting that takes one of a few text values
+const checkOption = (name: string, value: unknown, options: string[]) => {
+  if (typeof value !== 'string' || !options.includes(value)) {
+    throw new Error(`${name} must be one of ${options.join(', ')}.`);
+  }
+};
+
+// Check every value of a current-version project document against the designer's inputs
+const checkProjectFile = (project: Record<string, unknown>) => {
+  const canvas = getSection('canvas', project.canvas);
+  (['width', 'height'] as const).forEach(key => {
+    checkType(`canvas.${key}`, canvas[key], 'number');
+    if ((canvas[key] as number) <= 0) throw new Error(`canvas.${key} must be a positive number.`);
+  });
+  if (!isOutline(project.points, 0)) {
+    throw new Error('points must be a list of { "x", "y" } points.');
+  }
+
+  const boundary = getSection('boundary', project.boundary);
+  checkType('boundary.enabled', boundary.enabled, 'boolean');
+  checkDesignParameter('boundary.shape', 'boundaryShape', boundary.shape);
+  checkDesignParameter('boundary.aspect', 'boundaryAspect', boundary.aspect);
+  checkDesignParameter('boundary.cornerRadius', 'cornerRadius', boundary.cornerRadius);
+  checkDesignParameter('boundary.sides', 'polygonSides', boundary.sides);
+  checkDesignParameter('boundary.imported', 'importedOutline', boundary.imported);
+  if (!isOutline(boundary.vertices, 0)) {
+    throw new Error('boundary.vertices must be a list of { "x", "y" } points.');
+  }
+  checkDesignParameter('boundary.seed', 'boundarySeed', boundary.seed);
+  checkDesignParameter('boundary.jaggedness', 'jaggedness', boundary.jaggedness);
+  checkDesignParameter('boundary.jaggedPoints', 'jaggedPoints', boundary.jaggedPoints);
+
+  const generation = getSection('generation', project.generation);
+  checkDesignParameter('generation.numPoints', 'numPoints', generation.numPoints);
+  checkType('generation.seed', generation.seed, 'number');
+  checkDesignParameter('generation.randomness', 'randomness', generation.randomness);
+  checkDesignParameter('generation.relaxIterations', 'relaxIterations', generation.relaxIterations);
+  checkDesignParameter('generation.distribution', 'distribution', generation.distribution);
+  checkDesignParameter('generation.minSpacingMM', 'minSpacingMM', generation.minSpacingMM);
+  checkDesignParameter('generation.fillToSaturation', 'fillToSaturation', generation.fillToSaturation);
+  const density = getSection('generation.density', generation.density);
+  checkDesignParameter('generation.density.mode', 'densityMode', density.mode);
+  checkDesignParameter('generation.density.strength', 'densityStrength', density.strength);
+  checkDesignParameter('generation.density.angle', 'densityAngle', density.angle);
+  checkDesignParameter('generation.density.invert', 'densityInvert', density.invert);
+  if (density.image !== null) {
+    const image = getSection('generation.density.image', density.image);
+    checkRange('generation.density.image.width', image.width, { min: 1, max: Number.MAX_SAFE_INTEGER, integer: true });
+    checkRange('generation.density.image.height', image.height, { min: 1, max: Number.MAX_SAFE_INTEGER, integer: true });
+    // One base64-encoded byte per pixel
+    const size = (image.width as number) * (image.height as number);
+    if (typeof image.data !== 'string' || !/^[A-Za-z0-9+/]*={0,2}$/.test(image.data) ||
+      image.data.length !== Math.ceil(size / 3) * 4) {
+      throw new Error('generation.density.image.data must hold one base64-encoded byte per pixel.');
+    }
+  }
+
+  const keepOuts = getSection('keepOuts', project.keepOuts);
+  checkDesignParameter('keepOuts.margin', 'keepOutMargin', keepOuts.margin);
+  checkDesignParameter('keepOuts.zones', 'keepOuts', keepOuts.zones);
+  (keepOuts.zones as KeepOut[]).forEach((zone, i) => checkType(`keepOuts.zones[${i}].id`, zone.id, 'number'));
+
+  const border = getSection('border', project.border);
+  checkDesignParameter('border.offset', 'borderOffset', border.offset);
+  checkDesignParameter('border.join', 'borderJoin', border.join);
+  checkDesignParameter('border.filletRadius', 'filletRadius', border.filletRadius);
+
+  const display = getSection('display', project.display);
+  (['showPoints', 'showVoronoi', 'showDelaunay', 'showDoubleBorder'] as const).forEach(key =>
+    checkType(`display.${key}`, display[key], 'boolean'));
+  checkRange('display.strokeWidth', display.strokeWidth, { min: 0.5, max: 5 });
+  const fill = getSection('display.fill', display.fill);
+  checkOption('display.fill.mode', fill.mode, ['none', 'random', 'area', 'distance', 'graph'] satisfies FillMode[]);
+  if (!Array.isArray(fill.palette) || !fill.palette.every(color => typeof color === 'string')) {
+    throw new Error('display.fill.palette must be a list of colors.');
+  }
+
+  const exportSettings = getSection('export', project.export);
+  (['voronoi', 'delaunay', 'points', 'doubleBorder', 'boundary', 'keepOuts', 'kerfCompensation', 'fills'] as const)
+    .forEach(key => checkType(`export.${key}`, exportSettings[key], 'boolean'));
+  const png = getSection('export.png', exportSettings.png);
+  checkRange('export.png.dpi', png.dpi, { min: 72, max: 1200 });
+  checkType('export.png.transparent', png.transparent, 'boolean');
+  checkType('export.png.background', png.background, 'string');
+  const gcode = getSection('export.gcode', exportSettings.gcode);
+  checkOption('export.gcode.tool', gcode.tool, ['pen', 'router'] satisfies GCodeSettings['tool'][]);
+  checkMinimum('export.gcode.feedRate', gcode.feedRate, 1);
+  checkMinimum('export.gcode.travelRate', gcode.travelRate, 1);
+  checkType('export.gcode.penUp', gcode.penUp, 'string');
+  checkType('export.gcode.penDown', gcode.penDown, 'string');
+  checkMinimum('export.gcode.safeZ', gcode.safeZ, 0);
+  checkMinimum('export.gcode.depth', gcode.depth, 0);
+  checkRange('export.gcode.passes', gcode.passes, { min: 1, max: Number.MAX_SAFE_INTEGER, integer: true });
+  checkMinimum('export.gcode.toolDiameter', gcode.toolDiameter, 0);
+  checkType('export.gcode.startX', gcode.startX, 'number');
+  checkType('export.gcode.startY', gcode.startY, 'number');
+
+  const physical = getSection('physical', project.physical);
+  checkDesignParameter('physical.widthMM', 'physicalWidthMM', physical.widthMM);
+  checkDesignParameter('physical.aspect', 'documentAspect', physical.aspect);
+  checkOption('physical.unit', physical.unit, Object.keys(DOCUMENT_UNITS));
+
+  const material = getSection('material', project.material);
+  checkMinimum('material.minWebMM', material.minWebMM, 0);
+  checkMinimum('material.minHoleMM', material.minHoleMM, 0);
+  checkRange('material.kerfMM', material.kerfMM, { min: 0, max: MAX_KERF_MM });
+};
+
+// Parse a project document, upgrading older schema versions to the current one
+export const parseProjectFile = (text: string): ProjectFile => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!data || typeof data !== 'object' || data.format !== PROJECT_FORMAT) {
+    throw new Error('The file is not a Voronoi Designer project.');
+  }
+
+  let version = typeof data.version === 'number' ? data.version : 0;
+  if (version > PROJECT_VERSION) {
+    throw new Error(`The project was saved by a newer version (schema ${version}). Please update the designer.`);
+  }
+
+  while (version < PROJECT_VERSION) {
+    const migrate = PROJECT_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`Projects with schema version ${version} can no longer be opened.`);
+    }
+    try {
+      data = { ...migrate(data), version: version + 1 };
+    } catch {
+      throw new Error('The project file is incomplete.');
+    }
+    version++;
+  }
+
+  // Check everything up front, so a damaged file is never half applied
+  try {
+    checkProjectFile(data);
+  } catch (error) {
+    throw new Error(`The project file is invalid. ${error instanceof Error ? error.message : ''}`.trim());
+  }
+  return data as unknown as ProjectFile;
+};
+
+// Read the design parameters of a project
+export const getProjectDesignParameters = (project: ProjectFile): DesignParameters => {
+  let densityImage: DensityImage | null = null;
+  const imageData = project.generation.density.image;
+  if (imageData) {
+    const binary = atob(imageData.data);
+    const values = new Float32Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      values[i] = binary.charCodeAt(i) / 255;
+    }
+    densityImage = { width: imageData.width, height: imageData.height, values };
+  }
+
+  return {
+    numPoints: project.generation.numPoints,
+    seed: project.generation.seed,
+    randomness: project.generation.randomness,
+    relaxIterations: project.generation.relaxIterations,
+    distribution: project.generation.distribution,
+    minSpacingMM: project.generation.minSpacingMM,
+    fillToSaturation: project.generation.fillToSaturation,
+    densityMode: project.generation.density.mode,
+    densityStrength: project.generation.density.strength,
+    densityAngle: project.generation.density.angle,
+    densityInvert: project.generation.density.invert,
+    densityImage,
+    useCustomShape: project.boundary.enabled,
+    boundaryShape: project.boundary.shape,
+    boundaryAspect: project.boundary.aspect,
+    cornerRadius: project.boundary.cornerRadius,
+    polygonSides: project.boundary.sides,
+    importedOutline: project.boundary.imported,
+    boundarySeed: project.boundary.seed,
+    jaggedness: project.boundary.jaggedness,
+    jaggedPoints: project.boundary.jaggedPoints,
+    keepOuts: project.keepOuts.zones,
+    keepOutMargin: project.keepOuts.margin,
+    borderOffset: project.border.offset,
+    borderJoin: project.border.join,
+    filletRadius: project.border.filletRadius,
+    physicalWidthMM: project.physical.widthMM,
+    documentAspect: project.physical.aspect
+  };
+};